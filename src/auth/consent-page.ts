@@ -0,0 +1,74 @@
+/**
+ * HTML consent page shown before an MCP client is authorized
+ */
+
+import type { ConsentDescription } from "@cloudflare/workers-oauth-provider";
+import type { ToolScopes } from "./scopes.js";
+
+/**
+ * Escapes text for use in HTML content and attribute values
+ *
+ * @param value - Untrusted text, e.g. a client name from dynamic registration
+ * @returns The escaped text
+ */
+export function escapeHtml(value: string): string {
+	return value
+		.replace(/&/g, "&amp;")
+		.replace(/</g, "&lt;")
+		.replace(/>/g, "&gt;")
+		.replace(/"/g, "&quot;")
+		.replace(/'/g, "&#39;");
+}
+
+/**
+ * Renders the page asking the user to approve or deny an MCP client
+ *
+ * Everything in the description may come from the client, so it is escaped.
+ * The page names the client and where tokens will be sent, as the MCP
+ * authorization spec requires, and warns when that is a local app. When the
+ * deployment defines tool scopes, the user picks the ones the client gets,
+ * starting from those the client asked for.
+ *
+ * @param description - What the consent page must show, from `describeConsent`
+ * @param handle - Consent transaction handle posted back with the form
+ * @param scopes - Scope definitions from `OAUTH_TOOL_SCOPES`, if any
+ * @returns The HTML document
+ */
+export function renderConsentPage(description: ConsentDescription, handle: string, scopes?: ToolScopes): string {
+	const clientName = escapeHtml(description.clientName);
+	const domain = description.clientDomain ? ` <small>(${escapeHtml(description.clientDomain)})</small>` : "";
+	const loopbackWarning = description.redirectIsLoopback
+		? "<p><strong>Warning:</strong> access will be sent to an app on this computer. Any local program could be listening.</p>"
+		: "";
+	const access = scopes
+		? "It will be able to call the Zenbooker tools of the scopes you select."
+		: "It will be able to call Zenbooker tools, including tools that create and change records.";
+	const scopeOptions = Object.entries(scopes ?? {}).map(([name, entries]) => {
+		const checked = description.scope.includes(name) ? " checked" : "";
+		return `<label><input type="checkbox" name="scope" value="${escapeHtml(name)}"${checked}> <code>${escapeHtml(name)}</code>: ${escapeHtml(entries.join(", "))}</label><br>`;
+	});
+	const scopeChoices = scopes
+		? `<fieldset>\n<legend>Scopes</legend>\n${scopeOptions.join("\n")}\n</fieldset>\n`
+		: "";
+
+	return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<title>Authorize ${clientName}</title>
+</head>
+<body>
+<h1>Authorize ${clientName}${domain}</h1>
+<p>${clientName} is asking to use the Zenbooker MCP server on your behalf. ${access}</p>
+<p>Access will be sent to <strong>${escapeHtml(description.redirectHost)}</strong>.</p>
+${loopbackWarning}
+<p>You will sign in with GitHub next.</p>
+<form method="post" action="/authorize">
+<input type="hidden" name="handle" value="${escapeHtml(handle)}">
+${scopeChoices}<button type="submit" name="action" value="approve">Approve</button>
+<button type="submit" name="action" value="deny">Deny</button>
+</form>
+</body>
+</html>`;
+}
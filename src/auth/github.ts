@@ -0,0 +1,95 @@
+/**
+ * GitHub sign-in used to identify the user behind an OAuth authorization
+ *
+ * The server is its own OAuth authorization server for MCP clients, but it has
+ * no user accounts. Users prove who they are by signing in to GitHub, and only
+ * logins on the configured allowlist may authorize a client.
+ */
+
+import type { OAuthConfig } from "../config.js";
+import type { AuthenticatedUser } from "../types.js";
+
+const GITHUB_AUTHORIZE_URL = "https://github.com/login/oauth/authorize";
+const GITHUB_TOKEN_URL = "https://github.com/login/oauth/access_token";
+const GITHUB_USER_URL = "https://api.github.com/user";
+
+/**
+ * Raised when GitHub rejects the sign-in or returns an unexpected response
+ */
+export class GitHubSignInError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "GitHubSignInError";
+	}
+}
+
+/**
+ * Builds the GitHub URL the browser is sent to for sign-in
+ *
+ * @param config - OAuth configuration holding the GitHub app's client ID
+ * @param redirectUri - This server's callback URL
+ * @param state - Opaque state returned to the callback
+ * @returns The GitHub authorization URL
+ */
+export function buildGitHubAuthorizeUrl(config: OAuthConfig, redirectUri: string, state: string): string {
+	const url = new URL(GITHUB_AUTHORIZE_URL);
+	url.searchParams.set("client_id", config.githubClientId);
+	url.searchParams.set("redirect_uri", redirectUri);
+	url.searchParams.set("scope", "read:user user:email");
+	url.searchParams.set("state", state);
+	return url.toString();
+}
+
+/**
+ * Exchanges a GitHub authorization code and reads the signed-in user
+ *
+ * @param config - OAuth configuration holding the GitHub app credentials
+ * @param code - Code GitHub passed to the callback
+ * @param redirectUri - The callback URL the code was issued for
+ * @returns The GitHub user
+ * @throws GitHubSignInError if the code is rejected or the user cannot be read
+ */
+export async function fetchGitHubUser(config: OAuthConfig, code: string, redirectUri: string): Promise<AuthenticatedUser> {
+	const tokenResponse = await fetch(GITHUB_TOKEN_URL, {
+		method: "POST",
+		headers: { "Accept": "application/json", "Content-Type": "application/x-www-form-urlencoded" },
+		body: new URLSearchParams({
+			client_id: config.githubClientId,
+			client_secret: config.githubClientSecret,
+			code,
+			redirect_uri: redirectUri,
+		}),
+	});
+	const token = await tokenResponse.json() as { access_token?: string; error_description?: string };
+	if (!tokenResponse.ok || !token.access_token) {
+		throw new GitHubSignInError(`GitHub sign-in failed: ${token.error_description ?? `status ${tokenResponse.status}`}`);
+	}
+
+	const userResponse = await fetch(GITHUB_USER_URL, {
+		headers: {
+			"Accept": "application/vnd.github+json",
+			"Authorization": `Bearer ${token.access_token}`,
+			"User-Agent": "zenbooker-mcp",
+		},
+	});
+	if (!userResponse.ok) {
+		throw new GitHubSignInError(`Could not read the GitHub user: status ${userResponse.status}`);
+	}
+
+	const user = await userResponse.json() as { login?: string; name?: string | null; email?: string | null };
+	if (!user.login) {
+		throw new GitHubSignInError("GitHub did not return a login for the signed-in user");
+	}
+	return { login: user.login, name: user.name ?? undefined, email: user.email ?? undefined };
+}
+
+/**
+ * Checks a GitHub user against the configured allowlist
+ *
+ * @param config - OAuth configuration holding the allowlist
+ * @param user - Signed-in GitHub user
+ * @returns Whether the user may authorize MCP clients
+ */
+export function isAllowedGitHubUser(config: OAuthConfig, user: AuthenticatedUser): boolean {
+	return config.allowedGitHubUsers.includes(user.login.toLowerCase());
+}
@@ -0,0 +1,189 @@
+/**
+ * Authorization pages for the OAuth provider in front of `/mcp` and `/sse`
+ *
+ * The OAuth provider itself serves client registration, the token endpoint and
+ * token validation. This handler serves the browser side of an authorization:
+ * the consent page on `/authorize`, the redirect to GitHub, and the `/callback`
+ * that issues the grant once an allowed GitHub user has signed in.
+ */
+
+import {
+	AuthorizationError,
+	authorizationErrorRedirect,
+	type OAuthHelpers,
+} from "@cloudflare/workers-oauth-provider";
+import {
+	type OAuthConfig,
+	resolveOAuthConfig,
+	resolveZenbookerConfig,
+	ZenbookerConfigError,
+	type ZenbookerEnvironment,
+} from "../config.js";
+import type { SessionProps } from "../credentials.js";
+import { createRequestLogger, type Logger } from "../logger.js";
+import { renderConsentPage } from "./consent-page.js";
+import { buildGitHubAuthorizeUrl, fetchGitHubUser, GitHubSignInError, isAllowedGitHubUser } from "./github.js";
+import type { ToolScopes } from "./scopes.js";
+
+/**
+ * Worker environment including the bindings the OAuth provider needs
+ */
+export type AuthEnvironment = ZenbookerEnvironment & {
+	/** KV namespace holding OAuth clients, grants and tokens */
+	OAUTH_KV: KVNamespace;
+	/** Helpers injected by the OAuth provider */
+	OAUTH_PROVIDER: OAuthHelpers;
+};
+
+/**
+ * Builds a redirect response carrying the given headers
+ *
+ * @param location - Where to send the browser
+ * @param headers - Headers to send along, e.g. transaction cookies
+ * @returns The 302 response
+ */
+function redirect(location: string, headers: Headers = new Headers()): Response {
+	headers.set("Location", location);
+	return new Response(null, { status: 302, headers });
+}
+
+/**
+ * Gets the URL GitHub sends the browser back to
+ *
+ * @param request - Any request to this Worker
+ * @returns The absolute `/callback` URL
+ */
+function callbackUrl(request: Request): string {
+	return new URL("/callback", request.url).toString();
+}
+
+/**
+ * Shows the consent page for a client's authorization request
+ */
+async function showConsent(request: Request, env: AuthEnvironment, scopes?: ToolScopes): Promise<Response> {
+	let authRequest: Awaited<ReturnType<OAuthHelpers["parseAuthRequest"]>>;
+	try {
+		authRequest = await env.OAUTH_PROVIDER.parseAuthRequest(request);
+	} catch (error) {
+		return new Response(`Invalid authorization request: ${error instanceof Error ? error.message : String(error)}`, { status: 400 });
+	}
+
+	const description = await env.OAUTH_PROVIDER.describeConsent(authRequest);
+	const { handle, headers } = await env.OAUTH_PROVIDER.beginConsent(authRequest);
+	headers.set("Content-Type", "text/html; charset=utf-8");
+	return new Response(renderConsentPage(description, handle, scopes), { headers });
+}
+
+/**
+ * Handles the consent form: sends an approval on to GitHub sign-in, or a denial back to the client
+ *
+ * When the deployment defines tool scopes, the approval carries the scopes the
+ * user selected instead of those the client asked for.
+ */
+async function submitConsent(
+	request: Request,
+	env: AuthEnvironment,
+	config: OAuthConfig,
+	scopes?: ToolScopes
+): Promise<Response> {
+	const form = await request.formData();
+	const handle = String(form.get("handle") ?? "");
+
+	if (form.get("action") !== "approve") {
+		const denied = await env.OAUTH_PROVIDER.denyConsent(request, handle);
+		return new Response(null, { status: 302, headers: denied.headers });
+	}
+
+	const approved = await env.OAUTH_PROVIDER.approveConsent(
+		request,
+		handle,
+		scopes ? { scope: form.getAll("scope").map(String) } : undefined
+	);
+	const upstream = await env.OAUTH_PROVIDER.beginUpstream(approved.request, { headers: approved.headers });
+	return redirect(buildGitHubAuthorizeUrl(config, callbackUrl(request), upstream.state), upstream.headers);
+}
+
+/**
+ * Completes the authorization once GitHub has signed the user in
+ *
+ * Users outside the allowlist, and users who cancel at GitHub, are sent back
+ * to the client with an `access_denied` error.
+ */
+async function finishSignIn(
+	request: Request,
+	env: AuthEnvironment,
+	config: OAuthConfig,
+	logger: Logger
+): Promise<Response> {
+	const resumed = await env.OAUTH_PROVIDER.finishUpstream(request);
+	const code = new URL(request.url).searchParams.get("code");
+	if (!code) {
+		return redirect(authorizationErrorRedirect(resumed.request, "access_denied", "GitHub sign-in was cancelled"), resumed.headers);
+	}
+
+	const user = await fetchGitHubUser(config, code, callbackUrl(request));
+	if (!isAllowedGitHubUser(config, user)) {
+		logger.warn("GitHub user is not allowed to authorize clients", { login: user.login });
+		return redirect(
+			authorizationErrorRedirect(resumed.request, "access_denied", `GitHub user ${user.login} is not allowed to use this server`),
+			resumed.headers
+		);
+	}
+
+	const { redirectTo } = await env.OAUTH_PROVIDER.completeAuthorization({
+		request: resumed.request,
+		userId: user.login,
+		metadata: { label: user.name ?? user.login },
+		scope: resumed.request.scope,
+		props: { user } satisfies SessionProps,
+	});
+	return redirect(redirectTo, resumed.headers);
+}
+
+/**
+ * Default handler of the OAuth provider, serving every route that is not an API route
+ */
+export const authHandler = {
+	async fetch(request: Request, env: AuthEnvironment): Promise<Response> {
+		const { pathname } = new URL(request.url);
+		const logger = createRequestLogger(request, env);
+		if (pathname !== "/authorize" && pathname !== "/callback") {
+			return new Response("Not found", { status: 404 });
+		}
+
+		let config: OAuthConfig;
+		let scopes: ToolScopes | undefined;
+		try {
+			config = resolveOAuthConfig(env);
+			scopes = resolveZenbookerConfig(env).toolSelection.scopes;
+		} catch (error) {
+			if (error instanceof ZenbookerConfigError) {
+				logger.error("Server misconfigured", { error });
+				return new Response(`Server misconfigured: ${error.message}`, { status: 500 });
+			}
+			throw error;
+		}
+
+		try {
+			if (pathname === "/authorize" && request.method === "GET") {
+				return await showConsent(request, env, scopes);
+			}
+			if (pathname === "/authorize" && request.method === "POST") {
+				return await submitConsent(request, env, config, scopes);
+			}
+			if (pathname === "/callback" && request.method === "GET") {
+				return await finishSignIn(request, env, config, logger);
+			}
+			return new Response("Method not allowed", { status: 405 });
+		} catch (error) {
+			if (error instanceof AuthorizationError) {
+				return error.redirectTo ? redirect(error.redirectTo) : new Response(error.description, { status: 400 });
+			}
+			if (error instanceof GitHubSignInError) {
+				logger.warn("GitHub sign-in failed", { error });
+				return new Response(error.message, { status: 502 });
+			}
+			throw error;
+		}
+	},
+};
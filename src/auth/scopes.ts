@@ -0,0 +1,149 @@
+/**
+ * OAuth scopes that limit which tools an MCP client gets
+ *
+ * A deployment defines scopes in `OAUTH_TOOL_SCOPES`, each granting tool
+ * categories from `toolsByCategory` or single tools, e.g. a `dispatcher` scope
+ * with scheduling and jobs and a `bookkeeper` scope with invoices and
+ * transactions. The user approving a client picks the scopes its token
+ * carries, and each session registers only the tools of those scopes.
+ */
+
+import { ZenbookerConfigError } from "../config.js";
+import { type Logger, rootLogger } from "../logger.js";
+import { allTools, toolsByCategory } from "../tools/index.js";
+import type { AuthenticatedUser } from "../types.js";
+
+/**
+ * Tool categories and tool names granted by each scope, by scope name
+ */
+export type ToolScopes = Record<string, string[]>;
+
+/**
+ * Categories every session gets whatever its scopes, since truncated results point to them
+ */
+const UNSCOPED_CATEGORIES = ["results"];
+
+/**
+ * Lists the tools the granted scopes give access to
+ *
+ * Every scope definition is checked, not only the granted ones, so a typo
+ * fails the deployment rather than the one client that asks for that scope.
+ * Granted scopes that are no longer defined grant nothing.
+ *
+ * @param scopes - Scope definitions from `OAUTH_TOOL_SCOPES`
+ * @param granted - Scopes carried by the session's access token
+ * @returns Names of the allowed tools, in catalog order
+ * @throws ZenbookerConfigError if a scope names an unknown category or tool
+ */
+export function resolveScopeTools(scopes: ToolScopes, granted: string[]): string[] {
+	const catalog = Object.entries(toolsByCategory);
+	const allowed = new Set<string>();
+
+	for (const [scope, entries] of Object.entries(scopes)) {
+		for (const entry of entries) {
+			const category = catalog.find(([name]) => name === entry);
+			const tools = category
+				? category[1].map((tool) => tool.name)
+				: allTools.filter((tool) => tool.name === entry).map((tool) => tool.name);
+			if (tools.length === 0) {
+				throw new ZenbookerConfigError(`Unknown tool category or tool "${entry}" in OAUTH_TOOL_SCOPES scope "${scope}"`);
+			}
+			if (granted.includes(scope)) {
+				for (const name of tools) {
+					allowed.add(name);
+				}
+			}
+		}
+	}
+
+	return catalog.flatMap(([category, tools]) =>
+		tools.map((tool) => tool.name).filter((name) => UNSCOPED_CATEGORIES.includes(category) || allowed.has(name))
+	);
+}
+
+/**
+ * Finds the tools called by a JSON-RPC message body
+ *
+ * @param body - Raw JSON-RPC message, or a batch of messages
+ * @returns Names of the tools called by `tools/call` requests; empty if the body is not valid JSON
+ */
+export function findToolCalls(body: string): string[] {
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(body);
+	} catch {
+		return [];
+	}
+
+	const messages: unknown[] = Array.isArray(parsed) ? parsed : [parsed];
+	return messages.flatMap((message) => {
+		if (typeof message !== "object" || message === null) {
+			return [];
+		}
+		const { method, params } = message as { method?: unknown; params?: { name?: unknown } };
+		return method === "tools/call" && typeof params?.name === "string" ? [params.name] : [];
+	});
+}
+
+/**
+ * Who was refused which tool, as written to the audit log
+ */
+export interface DeniedToolCall {
+	tool: string;
+	/** GitHub login of the user who authorized the client */
+	user?: string;
+	/** OAuth client the session's token was issued to */
+	clientId?: string;
+	/** Scopes the session's token carries */
+	scopes: string[];
+}
+
+/**
+ * Tool access of one session under its granted scopes
+ */
+export class ScopedToolAccess {
+	/**
+	 * Names of the tools the session may register, in catalog order
+	 */
+	readonly allowedTools: string[];
+
+	/**
+	 * @param scopes - Scope definitions from `OAUTH_TOOL_SCOPES`
+	 * @param granted - Scopes carried by the session's access token
+	 * @param session - Who the session's token was issued to, for the audit log
+	 * @param logger - Where denied calls are written
+	 * @throws ZenbookerConfigError if a scope names an unknown category or tool
+	 */
+	constructor(
+		scopes: ToolScopes,
+		private readonly granted: string[],
+		private readonly session: { user?: AuthenticatedUser; clientId?: string } = {},
+		private readonly logger: Logger = rootLogger
+	) {
+		this.allowedTools = resolveScopeTools(scopes, granted);
+	}
+
+	/**
+	 * Audits calls to catalog tools the session's scopes leave out
+	 *
+	 * Such tools are never registered, so the MCP server answers these calls
+	 * with a "not found" error; this records who tried to call them.
+	 *
+	 * @param body - Raw JSON-RPC message received from the client
+	 * @returns The denied calls, each already written to the audit log
+	 */
+	auditDeniedCalls(body: string): DeniedToolCall[] {
+		const denied = findToolCalls(body)
+			.filter((tool) => allTools.some((known) => known.name === tool) && !this.allowedTools.includes(tool))
+			.map((tool): DeniedToolCall => ({
+				tool,
+				user: this.session.user?.login,
+				clientId: this.session.clientId,
+				scopes: this.granted,
+			}));
+		for (const call of denied) {
+			this.logger.warn("Denied tool call outside the session's OAuth scopes", { ...call });
+		}
+		return denied;
+	}
+}
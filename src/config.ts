@@ -0,0 +1,415 @@
+/**
+ * Runtime configuration for the Zenbooker MCP server
+ *
+ * Settings are read from the Worker environment (wrangler vars, secrets or
+ * `.dev.vars` locally) and validated before any tool is served.
+ */
+
+import type { ToolScopes } from "./auth/scopes.js";
+import { DEFAULT_LOG_LEVEL, LOG_LEVELS, type LogLevel } from "./logger.js";
+import { ACCOUNT_NAME_PATTERN, type ZenbookerAccounts } from "./tools/account-directory.js";
+import { DEFAULT_RATE_LIMIT, type RateLimitOptions } from "./tools/rate-limiter.js";
+import { DEFAULT_MAX_RESPONSE_CHARS } from "./tools/result-store.js";
+import {
+	DEFAULT_RESPONSE_VALIDATION_MODE,
+	RESPONSE_VALIDATION_MODES,
+	type ResponseValidationMode,
+} from "./tools/validation.js";
+
+/**
+ * Named Zenbooker API targets
+ */
+export const ZENBOOKER_API_PROFILES = {
+	production: "https://api.zenbooker.com/v1",
+	staging: "https://api.staging.zenbooker.com/v1",
+	local: "http://localhost:8788/v1",
+} as const;
+
+export type ZenbookerApiProfile = keyof typeof ZENBOOKER_API_PROFILES;
+
+/**
+ * Base URL used when no profile or override is configured
+ */
+export const DEFAULT_ZENBOOKER_API_BASE = ZENBOOKER_API_PROFILES.production;
+
+/**
+ * Names OAuth scopes may use, a subset of the OAuth scope token syntax
+ */
+const SCOPE_NAME_PATTERN = /^[A-Za-z0-9_.:-]{1,64}$/;
+
+/**
+ * Environment variables understood by the server
+ */
+export interface ZenbookerEnvironment {
+	ZENBOOKER_API_KEY?: string;
+	/** One of the ZENBOOKER_API_PROFILES names; defaults to "production" */
+	ZENBOOKER_API_PROFILE?: string;
+	/** Explicit base URL; takes precedence over the profile */
+	ZENBOOKER_API_BASE?: string;
+	/** Default per-attempt timeout for Zenbooker requests, in milliseconds */
+	ZENBOOKER_REQUEST_TIMEOUT_MS?: string;
+	/** Sustained requests per second allowed for each API key */
+	ZENBOOKER_RATE_LIMIT_PER_SECOND?: string;
+	/** Requests per API key that may be sent in a burst */
+	ZENBOOKER_RATE_LIMIT_BURST?: string;
+	/** Longest a request may queue for the rate limiter, in milliseconds */
+	ZENBOOKER_RATE_LIMIT_MAX_QUEUE_MS?: string;
+	/** Response validation mode: "off", "lenient" (default) or "strict" */
+	ZENBOOKER_RESPONSE_VALIDATION?: string;
+	/** Largest tool result returned in one piece, in characters */
+	ZENBOOKER_MAX_RESPONSE_CHARS?: string;
+	/** JSON object mapping account names to Zenbooker API keys */
+	ZENBOOKER_ACCOUNTS?: string;
+	/** Comma-separated tool categories to register; all categories when unset */
+	ENABLED_TOOL_CATEGORIES?: string;
+	/** Comma-separated names of tools that are never registered */
+	DISABLED_TOOLS?: string;
+	/** "true" leaves out every tool that creates or changes Zenbooker data */
+	ZENBOOKER_READ_ONLY?: string;
+	/** Least severe log level written: "debug", "info" (default), "warn" or "error" */
+	LOG_LEVEL?: string;
+	/** JSON object of OAuth scope names to the tool categories and tool names each grants */
+	OAUTH_TOOL_SCOPES?: string;
+	/** Client ID of the GitHub OAuth app users sign in with */
+	GITHUB_CLIENT_ID?: string;
+	/** Client secret of the GitHub OAuth app */
+	GITHUB_CLIENT_SECRET?: string;
+	/** Comma-separated GitHub logins allowed to authorize MCP clients */
+	OAUTH_ALLOWED_GITHUB_USERS?: string;
+}
+
+/**
+ * Resolved and validated server configuration
+ */
+export interface ZenbookerConfig {
+	profile: ZenbookerApiProfile | "custom";
+	apiBase: string;
+	/** Server-wide request timeout; undefined means the transport default */
+	requestTimeoutMs?: number;
+	/** Client-side token bucket applied per API key */
+	rateLimit: RateLimitOptions;
+	/** How responses that do not match their schema are handled */
+	responseValidation: ResponseValidationMode;
+	/** Results longer than this are truncated and stored for read_result_chunk */
+	maxResponseChars: number;
+	/** Named accounts a session can switch between */
+	accounts: ZenbookerAccounts;
+	/** Which tools this deployment registers */
+	toolSelection: ToolSelection;
+	/** Least severe log level written */
+	logLevel: LogLevel;
+}
+
+/**
+ * Deployment-level choice of tools, checked against the tool catalog at registration
+ */
+export interface ToolSelection {
+	/** Categories of `toolsByCategory` to register; undefined means all */
+	enabledCategories?: string[];
+	/** Tool names left out even when their category is enabled */
+	disabledTools: string[];
+	/** Leave out every mutating tool */
+	readOnly: boolean;
+	/** OAuth scopes limiting each client to some tools; undefined means every client gets every tool */
+	scopes?: ToolScopes;
+}
+
+/**
+ * Settings for signing users in through GitHub before an MCP client is authorized
+ */
+export interface OAuthConfig {
+	githubClientId: string;
+	githubClientSecret: string;
+	/** Lower-cased GitHub logins that may authorize clients */
+	allowedGitHubUsers: string[];
+}
+
+/**
+ * Raised when the Worker environment holds an invalid configuration
+ */
+export class ZenbookerConfigError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "ZenbookerConfigError";
+	}
+}
+
+/**
+ * Checks whether a string names a known API profile
+ *
+ * @param name - Candidate profile name
+ * @returns True if the name is a key of ZENBOOKER_API_PROFILES
+ */
+function isApiProfile(name: string): name is ZenbookerApiProfile {
+	return Object.keys(ZENBOOKER_API_PROFILES).includes(name);
+}
+
+/**
+ * Validates an API base URL and normalizes away any trailing slash
+ *
+ * Plain HTTP is only accepted for loopback hosts so that API keys are never
+ * sent unencrypted over the network.
+ *
+ * @param value - The configured base URL
+ * @returns The normalized base URL
+ * @throws ZenbookerConfigError if the URL is malformed or insecure
+ */
+function validateApiBase(value: string): string {
+	let url: URL;
+	try {
+		url = new URL(value);
+	} catch {
+		throw new ZenbookerConfigError(`ZENBOOKER_API_BASE is not a valid URL: "${value}"`);
+	}
+
+	const isLoopback = ["localhost", "127.0.0.1", "[::1]"].includes(url.hostname);
+	if (url.protocol !== "https:" && !(url.protocol === "http:" && isLoopback)) {
+		throw new ZenbookerConfigError(
+			`ZENBOOKER_API_BASE must use https (http is only allowed for localhost): "${value}"`
+		);
+	}
+	if (url.search || url.hash) {
+		throw new ZenbookerConfigError(`ZENBOOKER_API_BASE must not contain a query or fragment: "${value}"`);
+	}
+
+	return value.replace(/\/+$/, "");
+}
+
+/**
+ * Parses an optional positive numeric setting
+ *
+ * @param name - Environment variable name, used in error messages
+ * @param value - Raw environment value
+ * @param integer - Whether fractional values are rejected
+ * @returns The parsed number, or undefined when unset
+ * @throws ZenbookerConfigError if the value is not a positive number
+ */
+function parsePositiveNumber(name: string, value: string | undefined, integer = true): number | undefined {
+	if (!value?.trim()) {
+		return undefined;
+	}
+	const parsed = Number(value);
+	if (!Number.isFinite(parsed) || parsed <= 0 || (integer && !Number.isInteger(parsed))) {
+		throw new ZenbookerConfigError(
+			`${name} must be a positive ${integer ? "integer" : "number"}: "${value}"`
+		);
+	}
+	return parsed;
+}
+
+/**
+ * Parses a comma-separated list setting
+ *
+ * @param value - Raw environment value
+ * @returns The trimmed, non-empty entries
+ */
+function parseList(value: string | undefined): string[] {
+	return (value ?? "")
+		.split(",")
+		.map((entry) => entry.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Parses an optional on/off setting
+ *
+ * @param name - Environment variable name, used in error messages
+ * @param value - Raw environment value
+ * @returns The parsed value, or false when unset
+ * @throws ZenbookerConfigError if the value is not a recognized boolean
+ */
+function parseBoolean(name: string, value: string | undefined): boolean {
+	const normalized = value?.trim().toLowerCase();
+	if (!normalized || normalized === "false" || normalized === "0") {
+		return false;
+	}
+	if (normalized === "true" || normalized === "1") {
+		return true;
+	}
+	throw new ZenbookerConfigError(`${name} must be "true" or "false": "${value}"`);
+}
+
+/**
+ * Parses the response validation mode
+ *
+ * @param value - Raw environment value
+ * @returns The mode, or the default when unset
+ * @throws ZenbookerConfigError if the value is not a known mode
+ */
+function parseResponseValidationMode(value: string | undefined): ResponseValidationMode {
+	const mode = value?.trim().toLowerCase() || DEFAULT_RESPONSE_VALIDATION_MODE;
+	const match = RESPONSE_VALIDATION_MODES.find((candidate) => candidate === mode);
+	if (!match) {
+		throw new ZenbookerConfigError(
+			`Unknown ZENBOOKER_RESPONSE_VALIDATION "${value}". Expected one of: ${RESPONSE_VALIDATION_MODES.join(", ")}`
+		);
+	}
+	return match;
+}
+
+/**
+ * Parses the log level
+ *
+ * @param value - Raw environment value
+ * @returns The level, or the default when unset
+ * @throws ZenbookerConfigError if the value is not a known level
+ */
+function parseLogLevel(value: string | undefined): LogLevel {
+	const level = value?.trim().toLowerCase() || DEFAULT_LOG_LEVEL;
+	const match = LOG_LEVELS.find((candidate) => candidate === level);
+	if (!match) {
+		throw new ZenbookerConfigError(`Unknown LOG_LEVEL "${value}". Expected one of: ${LOG_LEVELS.join(", ")}`);
+	}
+	return match;
+}
+
+/**
+ * Resolves the server configuration from the Worker environment
+ *
+ * @param env - Worker environment bindings
+ * @returns The validated configuration
+ * @throws ZenbookerConfigError if the profile, base URL, timeout, rate limit, validation mode,
+ *   maximum response size, account map, read-only switch, scopes or log level is invalid
+ */
+export function resolveZenbookerConfig(env: ZenbookerEnvironment = {}): ZenbookerConfig {
+	const profileName = env.ZENBOOKER_API_PROFILE?.trim() || "production";
+	if (!isApiProfile(profileName)) {
+		throw new ZenbookerConfigError(
+			`Unknown ZENBOOKER_API_PROFILE "${profileName}". Expected one of: ${Object.keys(ZENBOOKER_API_PROFILES).join(", ")}`
+		);
+	}
+
+	const requestTimeoutMs = parsePositiveNumber("ZENBOOKER_REQUEST_TIMEOUT_MS", env.ZENBOOKER_REQUEST_TIMEOUT_MS);
+	const rateLimit: RateLimitOptions = {
+		ratePerSecond: parsePositiveNumber("ZENBOOKER_RATE_LIMIT_PER_SECOND", env.ZENBOOKER_RATE_LIMIT_PER_SECOND, false)
+			?? DEFAULT_RATE_LIMIT.ratePerSecond,
+		burst: parsePositiveNumber("ZENBOOKER_RATE_LIMIT_BURST", env.ZENBOOKER_RATE_LIMIT_BURST)
+			?? DEFAULT_RATE_LIMIT.burst,
+		maxQueueMs: parsePositiveNumber("ZENBOOKER_RATE_LIMIT_MAX_QUEUE_MS", env.ZENBOOKER_RATE_LIMIT_MAX_QUEUE_MS)
+			?? DEFAULT_RATE_LIMIT.maxQueueMs,
+	};
+	const responseValidation = parseResponseValidationMode(env.ZENBOOKER_RESPONSE_VALIDATION);
+	const maxResponseChars = parsePositiveNumber("ZENBOOKER_MAX_RESPONSE_CHARS", env.ZENBOOKER_MAX_RESPONSE_CHARS)
+		?? DEFAULT_MAX_RESPONSE_CHARS;
+	const accounts = parseAccounts(env.ZENBOOKER_ACCOUNTS);
+	const enabledCategories = parseList(env.ENABLED_TOOL_CATEGORIES);
+	const toolSelection: ToolSelection = {
+		enabledCategories: enabledCategories.length > 0 ? enabledCategories : undefined,
+		disabledTools: parseList(env.DISABLED_TOOLS),
+		readOnly: parseBoolean("ZENBOOKER_READ_ONLY", env.ZENBOOKER_READ_ONLY),
+		scopes: parseToolScopes(env.OAUTH_TOOL_SCOPES),
+	};
+	const logLevel = parseLogLevel(env.LOG_LEVEL);
+
+	const override = env.ZENBOOKER_API_BASE?.trim();
+	if (override) {
+		return { profile: "custom", apiBase: validateApiBase(override), requestTimeoutMs, rateLimit, responseValidation, maxResponseChars, accounts, toolSelection, logLevel };
+	}
+
+	return { profile: profileName, apiBase: ZENBOOKER_API_PROFILES[profileName], requestTimeoutMs, rateLimit, responseValidation, maxResponseChars, accounts, toolSelection, logLevel };
+}
+
+/**
+ * Parses the map of named accounts
+ *
+ * @param value - Raw environment value, a JSON object of account names to API keys
+ * @returns The accounts, or an empty map when unset
+ * @throws ZenbookerConfigError if the value is not such an object or a name is invalid
+ */
+function parseAccounts(value: string | undefined): ZenbookerAccounts {
+	if (!value?.trim()) {
+		return {};
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new ZenbookerConfigError("ZENBOOKER_ACCOUNTS must be a JSON object of account names to API keys");
+	}
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+		throw new ZenbookerConfigError("ZENBOOKER_ACCOUNTS must be a JSON object of account names to API keys");
+	}
+
+	const accounts: ZenbookerAccounts = {};
+	for (const [name, apiKey] of Object.entries(parsed)) {
+		if (!ACCOUNT_NAME_PATTERN.test(name)) {
+			throw new ZenbookerConfigError(
+				`Invalid account name "${name}" in ZENBOOKER_ACCOUNTS. Use letters, digits, "-" and "_"`
+			);
+		}
+		if (typeof apiKey !== "string" || !apiKey.trim()) {
+			throw new ZenbookerConfigError(`ZENBOOKER_ACCOUNTS entry "${name}" must be a non-empty API key`);
+		}
+		accounts[name] = apiKey.trim();
+	}
+	return accounts;
+}
+
+/**
+ * Parses the OAuth scope definitions
+ *
+ * Entries are only checked to be strings here; `resolveScopeTools` checks them
+ * against the tool catalog.
+ *
+ * @param value - Raw environment value, a JSON object of scope names to arrays of category and tool names
+ * @returns The scopes, or undefined when unset
+ * @throws ZenbookerConfigError if the value is not such an object or a scope name is invalid
+ */
+function parseToolScopes(value: string | undefined): ToolScopes | undefined {
+	if (!value?.trim()) {
+		return undefined;
+	}
+
+	let parsed: unknown;
+	try {
+		parsed = JSON.parse(value);
+	} catch {
+		throw new ZenbookerConfigError("OAUTH_TOOL_SCOPES must be a JSON object of scope names to arrays of tool categories and names");
+	}
+	if (typeof parsed !== "object" || parsed === null || Array.isArray(parsed)) {
+		throw new ZenbookerConfigError("OAUTH_TOOL_SCOPES must be a JSON object of scope names to arrays of tool categories and names");
+	}
+
+	const scopes: ToolScopes = {};
+	for (const [name, entries] of Object.entries(parsed)) {
+		if (!SCOPE_NAME_PATTERN.test(name)) {
+			throw new ZenbookerConfigError(
+				`Invalid scope name "${name}" in OAUTH_TOOL_SCOPES. Use letters, digits, "-", "_", "." and ":"`
+			);
+		}
+		if (!Array.isArray(entries) || entries.length === 0 || entries.some((entry) => typeof entry !== "string")) {
+			throw new ZenbookerConfigError(`OAUTH_TOOL_SCOPES scope "${name}" must be a non-empty array of tool categories and names`);
+		}
+		scopes[name] = entries;
+	}
+	if (Object.keys(scopes).length === 0) {
+		throw new ZenbookerConfigError("OAUTH_TOOL_SCOPES must define at least one scope");
+	}
+	return scopes;
+}
+
+/**
+ * Resolves the OAuth sign-in settings from the Worker environment
+ *
+ * Only the authorization pages need these, so they are resolved separately
+ * from the settings every tool call depends on.
+ *
+ * @param env - Worker environment bindings
+ * @returns The validated OAuth configuration
+ * @throws ZenbookerConfigError if the GitHub app credentials or the allowlist are missing
+ */
+export function resolveOAuthConfig(env: ZenbookerEnvironment = {}): OAuthConfig {
+	const githubClientId = env.GITHUB_CLIENT_ID?.trim();
+	const githubClientSecret = env.GITHUB_CLIENT_SECRET?.trim();
+	if (!githubClientId || !githubClientSecret) {
+		throw new ZenbookerConfigError("GITHUB_CLIENT_ID and GITHUB_CLIENT_SECRET must be set to sign users in");
+	}
+
+	const allowedGitHubUsers = parseList(env.OAUTH_ALLOWED_GITHUB_USERS).map((login) => login.toLowerCase());
+	if (allowedGitHubUsers.length === 0) {
+		throw new ZenbookerConfigError("OAUTH_ALLOWED_GITHUB_USERS must list at least one GitHub login");
+	}
+
+	return { githubClientId, githubClientSecret, allowedGitHubUsers };
+}
@@ -0,0 +1,110 @@
+/**
+ * Per-session Zenbooker credentials
+ *
+ * Each MCP client supplies its own Zenbooker API key on the request that opens
+ * its session. The Worker passes the key to the session's Durable Object as
+ * props, which McpAgent persists in that object's storage, so the key survives
+ * hibernation and is never visible to another session. The props also carry
+ * the user who authorized the client's OAuth token, and that token's client
+ * and scopes.
+ */
+
+import type { ZenbookerEnvironment } from "./config.js";
+import type { AuthenticatedUser } from "./types.js";
+
+/**
+ * Header a client may use to send its Zenbooker API key
+ */
+export const SESSION_API_KEY_HEADER = "X-Zenbooker-Api-Key";
+
+/**
+ * Props stored in each session's Durable Object
+ */
+export type SessionProps = {
+	/** Zenbooker API key supplied by the client that opened the session */
+	zenbookerApiKey?: string;
+	/** User who authorized the client's OAuth token */
+	user?: AuthenticatedUser;
+	/** OAuth client the session's token was issued to */
+	clientId?: string;
+	/** OAuth scopes the session's token carries */
+	scopes?: string[];
+};
+
+/**
+ * Reads the Zenbooker API key sent with a request
+ *
+ * Only the `X-Zenbooker-Api-Key` header is read. The `Authorization` header
+ * carries the client's OAuth access token.
+ *
+ * @param request - Incoming request to `/mcp` or `/sse`
+ * @returns The API key, or undefined if the request carries none
+ */
+export function readSessionApiKey(request: Request): string | undefined {
+	return request.headers.get(SESSION_API_KEY_HEADER)?.trim() || undefined;
+}
+
+/**
+ * Picks the API key a session's tools call Zenbooker with
+ *
+ * @param props - Props persisted in the session's Durable Object
+ * @param env - Worker environment, whose `ZENBOOKER_API_KEY` is only a fallback
+ * @returns The session's own key, else the environment key, else undefined
+ */
+export function resolveSessionApiKey(
+	props: SessionProps | undefined,
+	env: ZenbookerEnvironment = {}
+): string | undefined {
+	return props?.zenbookerApiKey || env.ZENBOOKER_API_KEY || undefined;
+}
+
+/**
+ * Names the Durable Object of the existing session a request is sent to
+ *
+ * SSE requests name their session in the `sessionId` query parameter and
+ * streamable HTTP requests in the `mcp-session-id` header. McpAgent names each
+ * session's Durable Object after its transport and session ID.
+ *
+ * @param request - Incoming request to `/mcp` or `/sse`
+ * @returns The Durable Object name, or undefined for a request that opens a new session
+ */
+export function sessionObjectName(request: Request): string | undefined {
+	const sseSessionId = new URL(request.url).searchParams.get("sessionId");
+	if (sseSessionId) {
+		return `sse:${sseSessionId}`;
+	}
+	const streamableSessionId = request.headers.get("mcp-session-id");
+	return streamableSessionId ? `streamable-http:${streamableSessionId}` : undefined;
+}
+
+/**
+ * Checks whether a request comes from the client that opened a session
+ *
+ * @param stored - Props stored when the session was opened, or undefined for a new session
+ * @param incoming - Props of the request that wants to use the session
+ * @returns True for a new session, or if the request has the same API key, OAuth client and user
+ */
+export function isSessionOwner(stored: SessionProps | undefined, incoming: SessionProps): boolean {
+	return (
+		stored === undefined ||
+		(stored.zenbookerApiKey === incoming.zenbookerApiKey &&
+			stored.clientId === incoming.clientId &&
+			stored.user?.login === incoming.user?.login)
+	);
+}
+
+/**
+ * Chooses the props a session keeps when McpAgent initializes it
+ *
+ * McpAgent's SSE transport initializes the session again, with the connecting
+ * request's props, on every `GET /sse?sessionId=…`. The props stored when the
+ * session was opened win, so a reconnect cannot replace the session's API
+ * key, scopes or user.
+ *
+ * @param stored - Props stored when the session was opened, or undefined for a new session
+ * @param incoming - Props of the request that initializes the session
+ * @returns The stored props if there are any, else the incoming props
+ */
+export function retainSessionProps(stored: SessionProps | undefined, incoming: SessionProps): SessionProps {
+	return stored ?? incoming;
+}
@@ -1,77 +1,146 @@
+import OAuthProvider, { type OAuthResourceContext } from "@cloudflare/workers-oauth-provider";
+import type { Connection, WSMessage } from "agents";
 import { McpAgent } from "agents/mcp";
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import type { ApiResponse } from "./types.js";
-import { registerAllTools } from "./tools/registry.js";
+import { type AuthEnvironment, authHandler } from "./auth/handler.js";
+import { resolveScopeTools, ScopedToolAccess, type ToolScopes } from "./auth/scopes.js";
+import {
+	resolveZenbookerConfig,
+	type ZenbookerConfig,
+	ZenbookerConfigError,
+} from "./config.js";
+import {
+	isSessionOwner,
+	readSessionApiKey,
+	resolveSessionApiKey,
+	retainSessionProps,
+	sessionObjectName,
+	type SessionProps,
+} from "./credentials.js";
+import { createRequestLogger, Logger } from "./logger.js";
+import { AccountDirectory, SqlAccountSelectionStore } from "./tools/account-directory.js";
+import type { ToolContext } from "./tools/base.js";
+import { SqlResponseCache } from "./tools/cache.js";
+import { SqlResultStore } from "./tools/result-store.js";
+import { RequestCoalescer } from "./tools/coalescer.js";
+import { DurableObjectRateLimiter, type RateLimitBucketNamespace } from "./tools/rate-limiter.js";
+import { toolsByCategory } from "./tools/index.js";
+import { registerToolsByCategory, selectTools } from "./tools/registry.js";
 
-// Interface for environment variables
-interface Env {
-	ZENBOOKER_API_KEY?: string;
-}
-
-interface ZenbookerEnvironment {
-	ZENBOOKER_API_KEY?: string;
-}
+// Wrangler needs every Durable Object class exported from the entry point
+export { RateLimitBucket } from "./rate-limit-bucket.js";
 
+// Interface for environment variables
+type Env = AuthEnvironment & {
+	/** MCP sessions, one Durable Object each */
+	MCP_OBJECT: DurableObjectNamespace<ZenbookerMCP>;
+	/** Rate-limit buckets shared by all sessions, one Durable Object per API key */
+	RATE_LIMIT_BUCKET: RateLimitBucketNamespace;
+};
 
 
-/**
- * Global API key storage for the main Worker context
- * Note: This does not persist into Durable Object execution contexts
- */
-let globalApiKey: string | undefined;
 
 /**
  * Zenbooker MCP Server implementation with modular tools
  * 
- * Provides comprehensive access to the Zenbooker API through 13 different tools
+ * Provides comprehensive access to the Zenbooker API through 27 different tools
  * covering jobs, customers, invoices, transactions, team members, recurring bookings,
- * territories, and coupons.
+ * territories, coupons and scheduling, plus tools for reading large results and
+ * switching between named accounts.
  * 
  * This class extends McpAgent and implements the MCP protocol for Cloudflare Workers.
  * Tools are now organized in modular libraries for better maintainability.
+ * Each session is its own Durable Object, and its props hold the Zenbooker API
+ * key supplied by the client that opened it.
  */
-export class ZenbookerMCP extends McpAgent {
+export class ZenbookerMCP extends McpAgent<Env, unknown, SessionProps> {
 	server = new McpServer({
 		name: "Zenbooker API",
 		version: "1.0.0",
 	});
 
 	/**
-	 * Sets the global API key for Zenbooker API authentication
-	 * @param key - The Zenbooker API key or undefined to clear
+	 * Validated configuration, resolved from the environment during init()
 	 */
-	static setApiKey(key?: string) {
-		globalApiKey = key;
-	}
+	private config?: ZenbookerConfig;
 
 	/**
-	 * Gets the current global API key
-	 * @returns The current API key or undefined if not set
+	 * Response cache kept in this Durable Object's SQLite storage
 	 */
-	static getApiKey(): string | undefined {
-		return globalApiKey;
-	}
+	private cache?: SqlResponseCache;
+
+	/**
+	 * Oversized results kept for read_result_chunk in this Durable Object's SQLite storage
+	 */
+	private resultStore?: SqlResultStore;
+
+	/**
+	 * Configured accounts, with the active one kept in this Durable Object's SQLite storage
+	 */
+	private accounts?: AccountDirectory;
+
+	/**
+	 * Tools this session's OAuth scopes allow, when the deployment defines scopes
+	 */
+	private scopedAccess?: ScopedToolAccess;
+
+	/**
+	 * Logger bound to this session, masking the session's API keys
+	 */
+	private logger?: Logger;
+
+	/**
+	 * Throttles this session's upstream requests in buckets shared with every other session
+	 */
+	private rateLimiter?: DurableObjectRateLimiter;
 
 	/**
-	 * Gets the environment API key from the Durable Object context
+	 * Shares identical in-flight GET requests made during this session
+	 */
+	readonly coalescer = new RequestCoalescer();
+
+	/**
+	 * Gets the Zenbooker API key for this session
 	 * 
-	 * This method handles the complexity of accessing environment variables
-	 * within a Durable Object, where global variables from the main Worker
-	 * context are not available.
+	 * The key comes from the session's props, which McpAgent restores from
+	 * Durable Object storage, so it is never shared with another session.
+	 * `ZENBOOKER_API_KEY` is used only when the client did not send a key.
 	 * 
-	 * @returns The API key from environment or global context
+	 * @returns The session's API key, the environment fallback, or undefined
 	 */
 	getEnvironmentApiKey(): string | undefined {
-		// In Durable Object context, we need to get the env from the state
-		// The McpAgent framework should provide access to this
-		return (this as unknown as { env?: ZenbookerEnvironment }).env?.ZENBOOKER_API_KEY || globalApiKey;
+		return resolveSessionApiKey(this.props, this.env);
+	}
+
+	/**
+	 * Builds the per-invocation context handed to every tool handler
+	 *
+	 * @returns Tool context carrying the configured API base URL, timeout, cache,
+	 *   coalescer, rate limiter, response validation mode, result store, the
+	 *   user who authorized the session, the named accounts and the session's logger
+	 */
+	getToolContext(): ToolContext {
+		return {
+			baseUrl: this.config?.apiBase,
+			timeoutMs: this.config?.requestTimeoutMs,
+			cache: this.cache,
+			coalescer: this.coalescer,
+			rateLimiter: this.rateLimiter,
+			responseValidation: this.config?.responseValidation,
+			resultStore: this.resultStore,
+			maxResponseChars: this.config?.maxResponseChars,
+			user: this.props?.user,
+			accounts: this.accounts,
+			logger: this.logger,
+		};
 	}
 
 	/**
 	 * Initializes all MCP tools for the Zenbooker API using modular tool libraries
 	 * 
-	 * This method registers 13 comprehensive tools organized by resource type:
-	 * - Jobs: list_jobs, get_job
+	 * This method registers 27 comprehensive tools organized by resource type:
+	 * - Jobs: list_jobs, get_job, start_job, complete_job, add_job_note, create_job, reschedule_job, cancel_job, assign_job, unassign_job
 	 * - Customers: list_customers, get_customer, create_customer, update_customer
 	 * - Invoices: list_invoices, get_invoice
 	 * - Transactions: list_transactions
@@ -79,36 +148,181 @@ export class ZenbookerMCP extends McpAgent {
 	 * - Recurring Bookings: list_recurring_bookings
 	 * - Territories: list_territories
 	 * - Coupons: create_coupon
+	 * - Scheduling: check_territory_coverage, get_available_appointments, check_adjacent_territories
+	 * - Results: read_result_chunk
+	 * - Accounts: list_accounts, use_account
 	 */
 	async init() {
-		// Register all tools using the modular registry
-		registerAllTools(this.server, this);
+		// Fail fast on a misconfigured environment before any tool is served
+		this.config = resolveZenbookerConfig(this.env);
+		this.logger = new Logger({
+			level: this.config.logLevel,
+			// McpAgent names each session's Durable Object "<transport>:<MCP session ID>"
+			bindings: { sessionId: this.ctx.id.name?.replace(/^[a-z-]+:/, "") ?? this.ctx.id.toString() },
+			secrets: [this.props?.zenbookerApiKey, this.env.ZENBOOKER_API_KEY, ...Object.values(this.config.accounts)]
+				.filter((secret): secret is string => Boolean(secret)),
+		});
+		this.cache = new SqlResponseCache(this.sql.bind(this));
+		this.rateLimiter = new DurableObjectRateLimiter(this.env.RATE_LIMIT_BUCKET, this.config.rateLimit);
+		this.resultStore = new SqlResultStore(this.sql.bind(this));
+		this.accounts = new AccountDirectory(this.config.accounts, new SqlAccountSelectionStore(this.sql.bind(this)));
+
+		// Register the tools this deployment enables and this session's scopes allow
+		const { enabledCategories, scopes, ...filters } = this.config.toolSelection;
+		this.scopedAccess = scopes && new ScopedToolAccess(scopes, this.props?.scopes ?? [], {
+			user: this.props?.user,
+			clientId: this.props?.clientId,
+		}, this.logger);
+		registerToolsByCategory(this.server, enabledCategories ?? Object.keys(toolsByCategory), this, {
+			...filters,
+			allowedTools: this.scopedAccess?.allowedTools,
+		});
+	}
+
+	/**
+	 * Stores the session's props, keeping those it was opened with
+	 *
+	 * McpAgent calls this with the connecting request's props whenever an SSE
+	 * client connects, including reconnects to an existing session.
+	 */
+	async _init(props: SessionProps): Promise<void> {
+		return super._init(retainSessionProps(await this.ctx.storage.get<SessionProps>("props"), props));
+	}
+
+	/**
+	 * Checks whether a request may use this session
+	 *
+	 * @param props - Props of the request
+	 * @returns True if the session is new or was opened with the same API key, OAuth client and user
+	 */
+	async isSessionOwner(props: SessionProps): Promise<boolean> {
+		return isSessionOwner(await this.ctx.storage.get<SessionProps>("props"), props);
+	}
+
+	/**
+	 * Audits denied tool calls on streamable HTTP sessions before handling the message
+	 */
+	async onMessage(connection: Connection, event: WSMessage): Promise<void> {
+		this.scopedAccess?.auditDeniedCalls(typeof event === "string" ? event : new TextDecoder().decode(event));
+		return super.onMessage(connection, event);
+	}
+
+	/**
+	 * Audits denied tool calls on SSE sessions before handling the message
+	 */
+	async onSSEMcpMessage(sessionId: string, request: Request): Promise<Error | null> {
+		this.scopedAccess?.auditDeniedCalls(await request.clone().text());
+		return super.onSSEMcpMessage(sessionId, request);
 	}
 }
 
-export default {
-	fetch(request: Request, env: Env, ctx: ExecutionContext) {
-		const url = new URL(request.url);
-
-		// Set the API key from environment variables if available
-		if (env.ZENBOOKER_API_KEY) {
-			ZenbookerMCP.setApiKey(env.ZENBOOKER_API_KEY);
-			console.log("API key set from environment:", env.ZENBOOKER_API_KEY ? "YES" : "NO");
-		} else {
-			console.warn("ZENBOOKER_API_KEY environment variable not found");
-		}
+/**
+ * Wraps an MCP endpoint so the session it opens stores the client's Zenbooker
+ * API key and the client and scopes of its access token
+ *
+ * The OAuth provider sets ctx.props to the token's grant props, and ctx.auth to
+ * what it verified about the token, before calling the endpoint. McpAgent
+ * passes ctx.props to the session's Durable Object when the session is opened,
+ * and the SSE transport passes them again on every `GET /sse?sessionId=…`
+ * reconnect. `ZenbookerMCP._init` keeps the props the session was opened with.
+ * Requests to an existing session, named by SSE's `sessionId` query parameter
+ * or the streamable HTTP `mcp-session-id` header, are refused with 403 unless
+ * they carry the same API key, OAuth client and user.
+ *
+ * @param endpoint - Handler returned by `ZenbookerMCP.serve` or `ZenbookerMCP.serveSSE`
+ * @returns A handler for the OAuth provider's API routes
+ */
+function withSessionProps(endpoint: ReturnType<typeof ZenbookerMCP.serve>) {
+	return {
+		async fetch(request: Request, env: Env, ctx: OAuthResourceContext<SessionProps>) {
+			ctx.props = { ...ctx.props, clientId: ctx.auth.clientId, scopes: ctx.auth.scope } satisfies SessionProps;
+			const sessionApiKey = readSessionApiKey(request);
+			if (sessionApiKey) {
+				ctx.props = { ...ctx.props, zenbookerApiKey: sessionApiKey } satisfies SessionProps;
+			} else if (!env.ZENBOOKER_API_KEY) {
+				createRequestLogger(request, env).warn("Request has no Zenbooker API key and ZENBOOKER_API_KEY is not set");
+			}
 
-		// Log the current state
-		console.log("Current global API key:", ZenbookerMCP.getApiKey() ? "SET" : "NOT SET");
+			const sessionName = sessionObjectName(request);
+			if (sessionName) {
+				const session = env.MCP_OBJECT.get(env.MCP_OBJECT.idFromName(sessionName));
+				if (!(await session.isSessionOwner(ctx.props))) {
+					createRequestLogger(request, env).warn("Refused a request to a session opened by another client", {
+						clientId: ctx.props.clientId,
+						user: ctx.props.user?.login,
+					});
+					return new Response("This MCP session belongs to another client or API key", { status: 403 });
+				}
+			}
+			return endpoint.fetch(request, env, ctx);
+		},
+	};
+}
 
-		if (url.pathname === "/sse" || url.pathname === "/sse/message") {
-			return ZenbookerMCP.serveSSE("/sse").fetch(request, env, ctx);
-		}
+/**
+ * OAuth 2.1 providers guarding the MCP endpoints, one per origin the Worker is served on
+ */
+const oauthProviders = new Map<string, OAuthProvider<Env>>();
+
+/**
+ * Gets the OAuth provider for the origin a request was sent to
+ *
+ * Requests to `/mcp` and `/sse` need a valid access token. Clients register
+ * on `/register`, users approve them on `/authorize`, and tokens are issued on
+ * `/token`. Clients, grants and tokens are kept in the `OAUTH_KV` namespace.
+ * Tokens are issued for the origin as their resource, so a token from one
+ * hostname is not accepted on another. The deployment's tool scopes are
+ * advertised as the scopes clients may request.
+ *
+ * @param origin - Origin of the incoming request
+ * @param scopes - Scope definitions from `OAUTH_TOOL_SCOPES`, if any
+ * @returns The provider for that origin
+ */
+function getOAuthProvider(origin: string, scopes?: ToolScopes): OAuthProvider<Env> {
+	let provider = oauthProviders.get(origin);
+	if (!provider) {
+		provider = new OAuthProvider<Env>({
+			apiHandlers: {
+				"/sse": withSessionProps(ZenbookerMCP.serveSSE("/sse")),
+				"/mcp": withSessionProps(ZenbookerMCP.serve("/mcp")),
+			},
+			defaultHandler: authHandler,
+			authorizeEndpoint: "/authorize",
+			tokenEndpoint: "/token",
+			clientRegistrationEndpoint: "/register",
+			resourceMetadata: { resource: origin, resource_name: "Zenbooker MCP Server" },
+			scopesSupported: scopes && Object.keys(scopes),
+		});
+		oauthProviders.set(origin, provider);
+	}
+	return provider;
+}
 
-		if (url.pathname === "/mcp") {
-			return ZenbookerMCP.serve("/mcp").fetch(request, env, ctx);
+export default {
+	fetch(request: Request, env: Env, ctx: ExecutionContext) {
+		// Reject requests early when the API base URL, profile, tool selection or scopes are misconfigured
+		const logger = createRequestLogger(request, env);
+		let config: ZenbookerConfig;
+		try {
+			config = resolveZenbookerConfig(env);
+			selectTools(config.toolSelection.enabledCategories ?? [], config.toolSelection);
+			if (config.toolSelection.scopes) {
+				resolveScopeTools(config.toolSelection.scopes, []);
+			}
+		} catch (error) {
+			if (error instanceof ZenbookerConfigError) {
+				logger.error("Server misconfigured", { error });
+				return new Response(`Server misconfigured: ${error.message}`, { status: 500 });
+			}
+			throw error;
 		}
 
-		return new Response("Not found", { status: 404 });
+		logger.debug("Handling request", {
+			method: request.method,
+			path: new URL(request.url).pathname,
+			profile: config.profile,
+			apiBase: config.apiBase,
+		});
+		return getOAuthProvider(new URL(request.url).origin, config.toolSelection.scopes).fetch(request, env, ctx);
 	},
-};
\ No newline at end of file
+};
@@ -0,0 +1,271 @@
+/**
+ * Structured JSON logging with secret and PII redaction
+ *
+ * Every log entry is one JSON line carrying its level, message, the
+ * correlation IDs bound to the logger (request, session, tool call) and the
+ * entry's own fields. Before an entry is written, values under sensitive keys
+ * are dropped and API keys, bearer tokens, email addresses, phone numbers and
+ * street addresses are masked wherever they appear in text, so upstream error
+ * bodies and customer records cannot leak into the Worker logs.
+ */
+
+/**
+ * Log levels, from most to least verbose
+ */
+export const LOG_LEVELS = ["debug", "info", "warn", "error"] as const;
+
+export type LogLevel = (typeof LOG_LEVELS)[number];
+
+/**
+ * Level used when `LOG_LEVEL` is not set
+ */
+export const DEFAULT_LOG_LEVEL: LogLevel = "info";
+
+/**
+ * Fields attached to a log entry
+ */
+export type LogFields = Record<string, unknown>;
+
+/**
+ * Writes one serialized log entry
+ */
+export type LogSink = (level: LogLevel, line: string) => void;
+
+/**
+ * Replacement for values that must not be logged
+ */
+const REDACTED = "[REDACTED]";
+
+/**
+ * Key fragments whose values are never logged, compared without case, "_" or "-"
+ */
+const SENSITIVE_KEY_FRAGMENTS = [
+	"apikey",
+	"authorization",
+	"token",
+	"secret",
+	"password",
+	"cookie",
+	"email",
+	"phone",
+	"mobile",
+	"address",
+	"street",
+	"postal",
+	"zip",
+];
+
+/**
+ * Patterns masked wherever they appear in logged text
+ */
+const TEXT_REDACTIONS: Array<[RegExp, string]> = [
+	[/\bBearer\s+[A-Za-z0-9._~+/=-]+/gi, `Bearer ${REDACTED}`],
+	[/[A-Za-z0-9._%+-]+@[A-Za-z0-9.-]+\.[A-Za-z]{2,}/g, "[EMAIL]"],
+	[/(?<![\w-])(?:\+?\d{1,3}[\s.-]?)?(?:\(\d{3}\)|\d{3})[\s.-]?\d{3}[\s.-]?\d{4}(?![\w-])/g, "[PHONE]"],
+	[
+		/\b\d{1,6}\s+(?:[A-Za-z0-9.'-]+\s+){0,4}(?:Street|St|Avenue|Ave|Road|Rd|Boulevard|Blvd|Lane|Ln|Drive|Dr|Court|Ct|Way|Place|Pl|Terrace|Ter|Circle|Cir|Parkway|Pkwy|Highway|Hwy)\b\.?/gi,
+		"[ADDRESS]",
+	],
+];
+
+/**
+ * Secrets shorter than this are not masked by value, to avoid masking common words
+ */
+const MIN_SECRET_LENGTH = 8;
+
+/**
+ * Masks secrets and personal data in a piece of text
+ *
+ * @param text - Text that may contain secrets or customer details
+ * @param secrets - Exact values to mask as well, e.g. the session's API keys
+ * @returns The text with every match replaced by a placeholder
+ */
+export function redactText(text: string, secrets: string[] = []): string {
+	let redacted = text;
+	for (const secret of secrets) {
+		if (secret.length >= MIN_SECRET_LENGTH) {
+			redacted = redacted.split(secret).join(REDACTED);
+		}
+	}
+	for (const [pattern, replacement] of TEXT_REDACTIONS) {
+		redacted = redacted.replace(pattern, replacement);
+	}
+	return redacted;
+}
+
+/**
+ * Checks whether a field name marks its value as sensitive
+ *
+ * @param key - Field name
+ * @returns True if the value must not be logged
+ */
+function isSensitiveKey(key: string): boolean {
+	const normalized = key.toLowerCase().replace(/[_-]/g, "");
+	return SENSITIVE_KEY_FRAGMENTS.some((fragment) => normalized.includes(fragment));
+}
+
+/**
+ * Converts an error into loggable fields
+ *
+ * @param error - The error to log
+ * @returns Its name and message, plus status and code when the error has them
+ */
+function serializeError(error: Error): LogFields {
+	const { status, code } = error as Error & { status?: unknown; code?: unknown };
+	return { name: error.name, message: error.message, status, code };
+}
+
+/**
+ * Redacts a value for logging
+ *
+ * Values under sensitive keys are replaced, text is masked with `redactText`,
+ * and errors are reduced to their name, message, status and code.
+ *
+ * @param value - Value to log
+ * @param secrets - Exact values to mask, e.g. the session's API keys
+ * @returns A JSON-safe copy of the value without secrets or personal data
+ */
+export function redact(value: unknown, secrets: string[] = []): unknown {
+	if (typeof value === "string") {
+		return redactText(value, secrets);
+	}
+	if (value instanceof Error) {
+		return redact(serializeError(value), secrets);
+	}
+	if (Array.isArray(value)) {
+		return value.map((item) => redact(item, secrets));
+	}
+	if (value !== null && typeof value === "object") {
+		return Object.fromEntries(
+			Object.entries(value).map(([key, item]) => [key, isSensitiveKey(key) ? REDACTED : redact(item, secrets)])
+		);
+	}
+	return value;
+}
+
+/**
+ * Writes entries to the console method matching their level
+ */
+const consoleSink: LogSink = (level, line) => {
+	if (level === "error") {
+		console.error(line);
+	} else if (level === "warn") {
+		console.warn(line);
+	} else {
+		console.log(line);
+	}
+};
+
+/**
+ * Options for a logger
+ */
+export interface LoggerOptions {
+	/** Least severe level written (default "info") */
+	level?: LogLevel;
+	/** Fields added to every entry, such as correlation IDs */
+	bindings?: LogFields;
+	/** Exact values to mask in every entry, such as API keys */
+	secrets?: string[];
+	/** Where entries are written (default the console) */
+	sink?: LogSink;
+}
+
+/**
+ * Structured logger that writes redacted JSON lines
+ */
+export class Logger {
+	private readonly level: LogLevel;
+	private readonly bindings: LogFields;
+	private readonly secrets: string[];
+	private readonly sink: LogSink;
+
+	constructor(options: LoggerOptions = {}) {
+		this.level = options.level ?? DEFAULT_LOG_LEVEL;
+		this.bindings = options.bindings ?? {};
+		this.secrets = options.secrets ?? [];
+		this.sink = options.sink ?? consoleSink;
+	}
+
+	/**
+	 * Creates a logger that adds more fields to every entry
+	 *
+	 * @param bindings - Fields to add, e.g. the tool being called
+	 * @param secrets - More values to mask
+	 * @returns The child logger, with this logger's level, fields and secrets
+	 */
+	child(bindings: LogFields, secrets: string[] = []): Logger {
+		return new Logger({
+			level: this.level,
+			bindings: { ...this.bindings, ...bindings },
+			secrets: [...this.secrets, ...secrets],
+			sink: this.sink,
+		});
+	}
+
+	debug(message: string, fields?: LogFields): void {
+		this.write("debug", message, fields);
+	}
+
+	info(message: string, fields?: LogFields): void {
+		this.write("info", message, fields);
+	}
+
+	warn(message: string, fields?: LogFields): void {
+		this.write("warn", message, fields);
+	}
+
+	error(message: string, fields?: LogFields): void {
+		this.write("error", message, fields);
+	}
+
+	/**
+	 * Redacts and writes one entry if its level is enabled
+	 */
+	private write(level: LogLevel, message: string, fields: LogFields = {}): void {
+		if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(this.level)) {
+			return;
+		}
+		const entry = redact({ ...this.bindings, ...fields }, this.secrets) as LogFields;
+		this.sink(level, JSON.stringify({
+			time: new Date().toISOString(),
+			level,
+			message: redactText(message, this.secrets),
+			...entry,
+		}));
+	}
+}
+
+/**
+ * Logger for code running outside a request, at the default level
+ */
+export const rootLogger = new Logger();
+
+/**
+ * Reads the correlation IDs of an incoming request
+ *
+ * @param request - Incoming request
+ * @returns `requestId` (the Cloudflare ray ID, or a random ID) and, when the
+ *   request belongs to an MCP session, `sessionId`
+ */
+export function requestBindings(request: Request): LogFields {
+	const sessionId = request.headers.get("mcp-session-id") ?? new URL(request.url).searchParams.get("sessionId");
+	return {
+		requestId: request.headers.get("cf-ray") ?? crypto.randomUUID(),
+		...(sessionId ? { sessionId } : {}),
+	};
+}
+
+/**
+ * Creates the logger for one incoming request
+ *
+ * An unknown `LOG_LEVEL` falls back to the default here; `resolveZenbookerConfig`
+ * rejects it before the request reaches any handler.
+ *
+ * @param request - Incoming request
+ * @param env - Worker environment holding `LOG_LEVEL`
+ * @returns A logger bound to the request's correlation IDs
+ */
+export function createRequestLogger(request: Request, env: { LOG_LEVEL?: string }): Logger {
+	const level = LOG_LEVELS.find((candidate) => candidate === env.LOG_LEVEL?.trim().toLowerCase());
+	return new Logger({ level: level ?? DEFAULT_LOG_LEVEL, bindings: requestBindings(request) });
+}
@@ -0,0 +1,57 @@
+/**
+ * Durable Object holding the rate-limit bucket of one Zenbooker API key
+ */
+
+import { DurableObject } from "cloudflare:workers";
+import { type RateLimitOptions, type Reservation, TokenBucketRateLimiter } from "./tools/rate-limiter.js";
+
+/**
+ * Key of the single bucket each object holds; the object itself is named after the API key
+ */
+const BUCKET_KEY = "api-key";
+
+/**
+ * Token bucket shared by every session that uses the same API key
+ *
+ * `DurableObjectRateLimiter` addresses one instance per API-key fingerprint.
+ * The bucket is kept in memory: if the object is evicted, it restarts full,
+ * which is also the state an idle bucket would have refilled to.
+ */
+export class RateLimitBucket extends DurableObject {
+	private limiter?: TokenBucketRateLimiter;
+
+	/**
+	 * Takes a token, queueing behind earlier reservations
+	 *
+	 * @param options - Token bucket settings of the calling deployment
+	 * @returns The wait before the token is usable, or a refusal if it exceeds maxQueueMs
+	 */
+	reserve(options: RateLimitOptions): Reservation {
+		return this.limiterFor(options).reserve(BUCKET_KEY);
+	}
+
+	/**
+	 * Returns a reserved token that will not be used
+	 *
+	 * @param options - Token bucket settings of the calling deployment
+	 */
+	release(options: RateLimitOptions): void {
+		this.limiterFor(options).release(BUCKET_KEY);
+	}
+
+	/**
+	 * Gets the limiter for the given settings, starting a new bucket if they changed
+	 */
+	private limiterFor(options: RateLimitOptions): TokenBucketRateLimiter {
+		const current = this.limiter?.options;
+		if (
+			!this.limiter ||
+			current?.ratePerSecond !== options.ratePerSecond ||
+			current.burst !== options.burst ||
+			current.maxQueueMs !== options.maxQueueMs
+		) {
+			this.limiter = new TokenBucketRateLimiter(options);
+		}
+		return this.limiter;
+	}
+}
@@ -0,0 +1,198 @@
+/**
+ * Runtime schemas for Zenbooker API responses
+ *
+ * These are the source of truth for the response types in types.ts. Objects use
+ * `passthrough()` so fields Zenbooker adds later are kept rather than stripped;
+ * validation reports missing or mistyped fields and unknown enum values.
+ */
+
+import { z } from "zod";
+
+/**
+ * Wraps an item schema in Zenbooker's cursor pagination envelope
+ *
+ * @param item - Schema for a single result
+ * @returns Schema for a page of results
+ */
+export function paginatedResponseSchema<T extends z.ZodTypeAny>(item: T) {
+	return z.object({
+		cursor: z.number(),
+		results: z.array(item),
+		count: z.number(),
+		has_more: z.boolean(),
+		next_cursor: z.number().nullable(),
+	}).passthrough();
+}
+
+// Customer related schemas
+export const customerSchema = z.object({
+	id: z.string(),
+	first_name: z.string(),
+	last_name: z.string(),
+	email: z.string().optional(),
+	phone: z.string().optional(),
+	address: z.string().optional(),
+	city: z.string().optional(),
+	state: z.string().optional(),
+	zip: z.string().optional(),
+	notes: z.string().optional(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const customersResponseSchema = paginatedResponseSchema(customerSchema);
+
+// Job related schemas
+export const jobSchema = z.object({
+	id: z.string(),
+	customer_id: z.string(),
+	status: z.enum(["scheduled", "pending", "confirmed", "in_progress", "completed", "cancelled"]),
+	start_time: z.string(),
+	end_time: z.string().optional(),
+	duration_minutes: z.number().optional(),
+	// Time actually spent, recorded when the job is completed
+	actual_duration_minutes: z.number().optional(),
+	description: z.string().optional(),
+	service_type: z.string().optional(),
+	// null once the job has been unassigned
+	assigned_team_member_id: z.string().nullable().optional(),
+	address: z.string().optional(),
+	notes: z.string().optional(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const jobsResponseSchema = paginatedResponseSchema(jobSchema);
+
+// Invoice related schemas
+export const invoiceLineItemSchema = z.object({
+	id: z.string().optional(),
+	description: z.string(),
+	quantity: z.number().optional(),
+	unit_price: z.number().optional(),
+	amount: z.number().optional(),
+	total: z.number().optional(),
+}).passthrough();
+
+export const invoiceSchema = z.object({
+	id: z.string(),
+	customer_id: z.string(),
+	job_id: z.string().optional(),
+	status: z.enum(["draft", "sent", "paid", "overdue", "cancelled"]),
+	amount: z.number(),
+	currency: z.string().optional(),
+	due_date: z.string().optional(),
+	description: z.string().optional(),
+	line_items: z.array(invoiceLineItemSchema).optional(),
+	created_at: z.string(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const invoicesResponseSchema = paginatedResponseSchema(invoiceSchema);
+
+// Transaction related schemas
+export const transactionSchema = z.object({
+	id: z.string(),
+	customer_id: z.string(),
+	invoice_id: z.string().optional(),
+	amount: z.number(),
+	currency: z.string().optional(),
+	type: z.enum(["payment", "refund", "adjustment"]).optional(),
+	status: z.enum(["pending", "completed", "failed", "cancelled"]),
+	payment_method: z.string().optional(),
+	reference: z.string().optional(),
+	processed_at: z.string().optional(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const transactionsResponseSchema = paginatedResponseSchema(transactionSchema);
+
+// Team member related schemas
+export const teamMemberSchema = z.object({
+	id: z.string(),
+	first_name: z.string(),
+	last_name: z.string(),
+	email: z.string(),
+	phone: z.string().optional(),
+	role: z.string(),
+	active: z.boolean(),
+	skills: z.array(z.string()).optional(),
+	territories: z.array(z.string()).optional(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const teamMembersResponseSchema = paginatedResponseSchema(teamMemberSchema);
+
+// Recurring booking related schemas
+export const recurringBookingSchema = z.object({
+	id: z.string(),
+	customer_id: z.string(),
+	service_type: z.string(),
+	frequency: z.enum(["weekly", "biweekly", "monthly", "quarterly"]),
+	day_of_week: z.number().optional(),
+	time: z.string().optional(),
+	duration_minutes: z.number().optional(),
+	active: z.boolean(),
+	next_occurrence: z.string().optional(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const recurringBookingsResponseSchema = paginatedResponseSchema(recurringBookingSchema);
+
+// Territory related schemas
+export const territorySchema = z.object({
+	id: z.string(),
+	name: z.string(),
+	description: z.string().optional(),
+	zip_codes: z.array(z.string()).optional(),
+	cities: z.array(z.string()).optional(),
+	states: z.array(z.string()).optional(),
+	active: z.boolean(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+export const territoriesResponseSchema = paginatedResponseSchema(territorySchema);
+
+// Coupon related schemas
+export const couponSchema = z.object({
+	id: z.string(),
+	code: z.string(),
+	name: z.string(),
+	description: z.string().optional(),
+	discount_type: z.enum(["percentage", "fixed_amount"]),
+	discount_value: z.number(),
+	valid_from: z.string().optional(),
+	valid_until: z.string().optional(),
+	max_uses: z.number().optional(),
+	current_uses: z.number().optional(),
+	min_order_value: z.number().optional(),
+	active: z.boolean(),
+	created_at: z.string().optional(),
+	updated_at: z.string().optional(),
+}).passthrough();
+
+// Scheduling related schemas
+// Coverage and availability checks wrap an endpoint-specific payload in `data`
+export const schedulingResponseSchema = z.object({
+	success: z.boolean(),
+	data: z.object({}).passthrough(),
+}).passthrough();
+
+// A bookable slot from the availability search; create_job takes it back unchanged
+export const appointmentSlotSchema = z.object({
+	datetime: z.string(),
+	duration_minutes: z.number(),
+	team_member_id: z.string(),
+	team_member_name: z.string().optional(),
+}).passthrough();
+
+export const availableAppointmentsResponseSchema = schedulingResponseSchema.extend({
+	data: z.object({
+		territory_id: z.string().optional(),
+		available_slots: z.array(appointmentSlotSchema),
+	}).passthrough(),
+});
@@ -0,0 +1,128 @@
+/**
+ * Named Zenbooker accounts and the session's active account
+ *
+ * A deployment can serve several Zenbooker accounts, e.g. one per franchise
+ * location. Each has a name and an API key. A session picks its active account
+ * with `use_account`, and any tool call can name another one with `account`.
+ */
+
+import { z } from "zod";
+import type { SqlExecutor } from "./cache.js";
+
+/**
+ * Names accounts may use
+ */
+export const ACCOUNT_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * API keys of the configured accounts, by account name
+ */
+export type ZenbookerAccounts = Record<string, string>;
+
+/**
+ * Common parameter added to every tool that calls Zenbooker
+ */
+export const accountOverrideSchema = {
+	account: z.string().optional().describe("Name of the Zenbooker account to use for this call instead of the session's active account (see list_accounts)"),
+};
+
+/**
+ * Raised when a tool call names an account that is not configured
+ */
+export class UnknownAccountError extends Error {
+	constructor(
+		public readonly account: string,
+		public readonly available: string[]
+	) {
+		super(
+			available.length > 0
+				? `Unknown Zenbooker account "${account}". Available accounts: ${available.join(", ")}`
+				: `Unknown Zenbooker account "${account}". No named accounts are configured on this server.`
+		);
+		this.name = "UnknownAccountError";
+	}
+}
+
+/**
+ * Storage for the session's active account
+ */
+export interface AccountSelectionStore {
+	get(): string | undefined;
+	set(name: string): void;
+}
+
+/**
+ * Active account kept in Durable Object SQLite, so it survives hibernation
+ */
+export class SqlAccountSelectionStore implements AccountSelectionStore {
+	constructor(private readonly sql: SqlExecutor) {
+		this.sql`CREATE TABLE IF NOT EXISTS active_account (
+			id INTEGER PRIMARY KEY CHECK (id = 1),
+			name TEXT NOT NULL
+		)`;
+	}
+
+	get(): string | undefined {
+		const [row] = this.sql<{ name: string }>`SELECT name FROM active_account WHERE id = 1`;
+		return row?.name;
+	}
+
+	set(name: string): void {
+		this.sql`
+			INSERT INTO active_account (id, name) VALUES (1, ${name})
+			ON CONFLICT (id) DO UPDATE SET name = excluded.name
+		`;
+	}
+}
+
+/**
+ * The configured accounts together with the session's choice among them
+ */
+export class AccountDirectory {
+	private readonly accounts: Map<string, string>;
+
+	constructor(accounts: ZenbookerAccounts, private readonly selection: AccountSelectionStore) {
+		this.accounts = new Map(Object.entries(accounts));
+	}
+
+	/**
+	 * Names of all configured accounts, in configuration order
+	 */
+	names(): string[] {
+		return [...this.accounts.keys()];
+	}
+
+	/**
+	 * The session's active account, if it chose one that is still configured
+	 */
+	get active(): string | undefined {
+		const name = this.selection.get();
+		return name !== undefined && this.accounts.has(name) ? name : undefined;
+	}
+
+	/**
+	 * Makes an account the session's active account
+	 *
+	 * @param name - Account name
+	 * @throws UnknownAccountError if no account has that name
+	 */
+	use(name: string): void {
+		this.apiKeyFor(name);
+		this.selection.set(name);
+	}
+
+	/**
+	 * Gets the API key of an account
+	 *
+	 * @param name - Account name
+	 * @returns The account's API key
+	 * @throws UnknownAccountError if no account has that name
+	 */
+	apiKeyFor(name: string): string {
+		const apiKey = this.accounts.get(name);
+		if (apiKey === undefined) {
+			throw new UnknownAccountError(name, this.names());
+		}
+		return apiKey;
+	}
+}
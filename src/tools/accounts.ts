@@ -0,0 +1,90 @@
+/**
+ * Account selection tools for the Zenbooker MCP server
+ */
+
+import { z } from "zod";
+import type { ToolContext, ToolImplementation } from "./base.js";
+import type { AccountDirectory } from "./account-directory.js";
+
+/**
+ * Gets the session's account directory
+ *
+ * @param context - Tool context
+ * @returns The directory
+ * @throws Error if the server has no account directory for the session
+ */
+function requireAccounts(context?: ToolContext): AccountDirectory {
+	if (!context?.accounts) {
+		throw new Error("Named accounts are not available in this session");
+	}
+	return context.accounts;
+}
+
+/**
+ * Describes the configured accounts and which one is active
+ *
+ * @param accounts - The session's account directory
+ * @returns Structured summary of the accounts
+ */
+function describeAccounts(accounts: AccountDirectory) {
+	const active = accounts.active;
+	return {
+		accounts: accounts.names().map((name) => ({ name, active: name === active })),
+		active: active ?? null,
+	};
+}
+
+/**
+ * Structured output of the account tools
+ */
+const accountsOutputShape = {
+	accounts: z.array(z.object({ name: z.string(), active: z.boolean() })),
+	active: z.string().nullable(),
+};
+
+/**
+ * List accounts tool implementation
+ */
+export const listAccountsTool: ToolImplementation = {
+	name: "list_accounts",
+	description: "List the named Zenbooker accounts this server can use, such as one per franchise location, and show which one is active for this session.",
+	schema: {},
+	outputSchema: accountsOutputShape,
+	local: true,
+	handler: async (_params, _apiKey, context) => {
+		const summary = describeAccounts(requireAccounts(context));
+		const text = summary.accounts.length === 0
+			? "No named accounts are configured. Tools use the session's own API key."
+			: JSON.stringify(summary, null, 2);
+		return { content: [{ type: "text", text }], structuredContent: summary };
+	}
+};
+
+/**
+ * Use account tool implementation
+ */
+export const useAccountTool: ToolImplementation = {
+	name: "use_account",
+	description: "Set the named Zenbooker account that the tools in this session use from now on. Individual calls can still pick another account with their `account` parameter.",
+	schema: {
+		name: z.string().describe("Name of the account to make active (see list_accounts)"),
+	},
+	outputSchema: accountsOutputShape,
+	local: true,
+	handler: async (params, _apiKey, context) => {
+		const accounts = requireAccounts(context);
+		accounts.use(params.name);
+		return {
+			content: [{ type: "text", text: `Now using the Zenbooker account "${params.name}".` }],
+			structuredContent: describeAccounts(accounts),
+		};
+	}
+};
+
+/**
+ * All account tools exported as an array
+ */
+export const accountTools = [
+	listAccountsTool,
+	useAccountTool,
+] as const;
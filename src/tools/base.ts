@@ -3,7 +3,36 @@
  */
 
 import { z } from "zod";
-import type { ApiResponse } from "../types.js";
+import { DEFAULT_ZENBOOKER_API_BASE } from "../config.js";
+import type { Logger } from "../logger.js";
+import type { ApiResponse, AuthenticatedUser } from "../types.js";
+import {
+	buildCacheKey,
+	fingerprint,
+	getCacheTtl,
+	getInvalidationPrefix,
+	type ResponseCache,
+} from "./cache.js";
+import type { AccountDirectory } from "./account-directory.js";
+import type { RequestCoalescer } from "./coalescer.js";
+import { type OutputFormat, renderOutput } from "./output-format.js";
+import { projectFields } from "./projection.js";
+import type { RateLimiter } from "./rate-limiter.js";
+import { continuationNote, DEFAULT_MAX_RESPONSE_CHARS, type ResultStore } from "./result-store.js";
+import type { ResponseValidationMode } from "./validation.js";
+import {
+	createZenbookerApiError,
+	ZenbookerRequestCancelledError,
+	ZenbookerTimeoutError,
+} from "./errors.js";
+import {
+	computeRetryDelay,
+	DEFAULT_RETRY_POLICY,
+	isRetryableMethod,
+	parseRetryAfter,
+	type RetryPolicy,
+	sleep,
+} from "./retry.js";
 
 /**
  * Common tool result structure for MCP responses
@@ -22,23 +51,83 @@ export interface ToolResult {
 	_meta?: { [x: string]: unknown } | undefined;
 	structuredContent?: { [x: string]: unknown } | undefined;
 	isError?: boolean | undefined;
-}/**
+}
+
+/**
+ * Per-invocation context passed from the registry to tool handlers
+ */
+export interface ToolContext {
+	/** Zenbooker API base URL; defaults to the production API */
+	baseUrl?: string;
+	/** Cancellation signal of the MCP request that invoked the tool */
+	signal?: AbortSignal;
+	/** Timeout for each upstream attempt in milliseconds */
+	timeoutMs?: number;
+	/** Read-through cache for GET requests, backed by Durable Object storage */
+	cache?: ResponseCache;
+	/** Skip cached responses and fetch live data (the cache is still refreshed) */
+	fresh?: boolean;
+	/** Shares concurrent identical GET requests within the session */
+	coalescer?: RequestCoalescer;
+	/** Throttles upstream attempts per API key */
+	rateLimiter?: RateLimiter;
+	/** How handlers treat responses that do not match their schema (default "lenient") */
+	responseValidation?: ResponseValidationMode;
+	/** Dotted paths of the fields to return; the output is pruned to these when set */
+	fields?: string[];
+	/** How the result text is rendered (default "json") */
+	format?: OutputFormat;
+	/** Holds oversized results so they can be read back in chunks */
+	resultStore?: ResultStore;
+	/** Largest result text returned in one piece, in characters */
+	maxResponseChars?: number;
+	/** User who authorized the session's OAuth token */
+	user?: AuthenticatedUser;
+	/** Named Zenbooker accounts and the session's active account */
+	accounts?: AccountDirectory;
+	/** Logger carrying the session's and the tool call's correlation IDs */
+	logger?: Logger;
+	/** Per-invocation metadata collected during the call and reported in the result's `_meta` */
+	meta?: Record<string, unknown>;
+}
+
+/**
+ * Common parameter for tools whose responses may be served from the cache
+ */
+export const cacheControlSchema = {
+	fresh: z.boolean().optional().describe("Set to true to bypass cached data and fetch live results from Zenbooker"),
+};
+
+/**
  * Base interface for tool implementations
  */
 export interface ToolImplementation {
 	name: string;
 	description: string;
 	schema: z.ZodRawShape;
-	handler: (params: any, apiKey?: string) => Promise<ToolResult>;
+	/** Shape of the `structuredContent` returned on success, published as the MCP output schema */
+	outputSchema?: z.ZodRawShape;
+	/** Per-attempt upstream timeout for this tool; overrides the server default */
+	timeoutMs?: number;
+	/** Tool works on session state only and never calls Zenbooker, so it takes no `account` parameter */
+	local?: boolean;
+	/** Tool creates or changes Zenbooker data; left out in read-only mode */
+	mutating?: boolean;
+	handler: (params: any, apiKey?: string, context?: ToolContext) => Promise<ToolResult>;
 }
 
+/**
+ * Default timeout for a single Zenbooker API attempt
+ */
+export const DEFAULT_REQUEST_TIMEOUT_MS = 10_000;
+
 /**
  * Helper function to build query string from parameters object
  * 
  * @param params - Object containing query parameters
  * @returns URLSearchParams instance with non-undefined values
  */
-export function buildQueryParams(params: Record<string, unknown>): URLSearchParams {
+export function buildQueryParams(params: object): URLSearchParams {
 	const queryParams = new URLSearchParams();
 	Object.entries(params).forEach(([key, value]) => {
 		if (value !== undefined) {
@@ -48,38 +137,236 @@ export function buildQueryParams(params: Record<string, unknown>): URLSearchPara
 	return queryParams;
 }
 
+/**
+ * Per-request options for makeZenbookerRequest
+ */
+export interface RequestOptions extends ToolContext {
+	/** Idempotency key sent upstream; allows POST/PATCH requests to be retried */
+	idempotencyKey?: string;
+	/** Overrides for the default retry policy */
+	retry?: Partial<RetryPolicy>;
+}
+
+/**
+ * Upstream response of a single attempt, with its body already read
+ */
+interface UpstreamReply {
+	response: Response;
+	/** Parsed JSON body of a successful response */
+	data?: ApiResponse;
+	/** Raw body of a failed response */
+	errorText?: string;
+}
+
+/**
+ * Performs a single fetch that is aborted on timeout or client cancellation
+ *
+ * The timeout and cancellation cover reading the body as well as waiting for
+ * the headers, and the abort is raced against both so that a transport which
+ * ignores the signal, or a body that stalls, still cannot hang the tool.
+ *
+ * @param url - Request URL
+ * @param config - Fetch configuration
+ * @param timeoutMs - Timeout in milliseconds
+ * @param signal - Cancellation signal of the calling MCP request
+ * @returns The upstream response and its body
+ * @throws ZenbookerTimeoutError on timeout, ZenbookerRequestCancelledError on cancellation
+ */
+async function fetchWithTimeout(
+	url: string,
+	config: RequestInit,
+	timeoutMs: number,
+	signal?: AbortSignal
+): Promise<UpstreamReply> {
+	if (signal?.aborted) {
+		throw new ZenbookerRequestCancelledError();
+	}
+
+	const controller = new AbortController();
+	let abortReason: Error | undefined;
+	const abort = (reason: Error) => {
+		abortReason = reason;
+		controller.abort();
+	};
+	const onCancel = () => abort(new ZenbookerRequestCancelledError());
+	const timer = setTimeout(() => abort(new ZenbookerTimeoutError(timeoutMs)), timeoutMs);
+	signal?.addEventListener("abort", onCancel);
+
+	const aborted = new Promise<never>((_, reject) => {
+		controller.signal.addEventListener("abort", () => reject(abortReason));
+	});
+
+	try {
+		const response = await Promise.race([fetch(url, { ...config, signal: controller.signal }), aborted]);
+		if (response.ok) {
+			return { response, data: await Promise.race([response.json() as Promise<ApiResponse>, aborted]) };
+		}
+		return { response, errorText: await Promise.race([response.text(), aborted]) };
+	} catch (error) {
+		throw abortReason ?? error;
+	} finally {
+		clearTimeout(timer);
+		signal?.removeEventListener("abort", onCancel);
+	}
+}
+
+/**
+ * Sends a request, retrying transient failures according to the retry policy
+ *
+ * Every attempt, including retries, first takes a token from the rate limiter.
+ * Failed attempts are logged with their status but never their response body,
+ * which may contain customer details.
+ *
+ * @param url - Fully qualified request URL
+ * @param config - Fetch configuration (method, headers, body)
+ * @param rateLimitKey - Rate limiter bucket for the API key in use
+ * @param options - Cancellation, timeout, rate limiter, idempotency key and retry policy overrides
+ * @returns Promise resolving to the parsed JSON response
+ */
+async function sendWithRetry(
+	url: string,
+	config: RequestInit,
+	rateLimitKey: string,
+	options: RequestOptions
+): Promise<ApiResponse> {
+	const method = config.method ?? "GET";
+	const policy: RetryPolicy = { ...DEFAULT_RETRY_POLICY, ...options.retry };
+	const maxAttempts = isRetryableMethod(method, options.idempotencyKey) ? policy.maxAttempts : 1;
+	const timeoutMs = options.timeoutMs ?? DEFAULT_REQUEST_TIMEOUT_MS;
+	const startedAt = Date.now();
+	// Query strings may carry customer details; log the path only
+	const path = new URL(url).pathname;
+
+	for (let attempt = 1; ; attempt++) {
+		if (options.rateLimiter) {
+			await options.rateLimiter.acquire(rateLimitKey, options.signal);
+		}
+
+		let reply: UpstreamReply;
+		try {
+			reply = await fetchWithTimeout(url, config, timeoutMs, options.signal);
+		} catch (error) {
+			if (error instanceof ZenbookerRequestCancelledError) {
+				throw error;
+			}
+			// Network-level failures, timeouts and unreadable bodies are transient by nature
+			const delay = computeRetryDelay(attempt, policy);
+			const retrying = attempt < maxAttempts && Date.now() - startedAt + delay <= policy.maxTotalTimeMs;
+			options.logger?.warn("Zenbooker request failed", { method, path, attempt, retrying, error });
+			if (!retrying) {
+				throw error;
+			}
+			await sleep(delay, options.signal);
+			if (options.signal?.aborted) {
+				throw new ZenbookerRequestCancelledError();
+			}
+			continue;
+		}
+
+		const { response, data, errorText = "" } = reply;
+		if (response.ok) {
+			return data as ApiResponse;
+		}
+
+		let delay: number | undefined;
+		if (attempt < maxAttempts && policy.retryableStatuses.includes(response.status)) {
+			const retryAfterMs = parseRetryAfter(response.headers?.get("Retry-After"));
+			const backoff = computeRetryDelay(attempt, policy, retryAfterMs);
+			if (Date.now() - startedAt + backoff <= policy.maxTotalTimeMs) {
+				delay = backoff;
+			}
+		}
+		options.logger?.warn("Zenbooker request failed", {
+			method,
+			path,
+			status: response.status,
+			attempt,
+			retrying: delay !== undefined,
+		});
+		if (delay !== undefined) {
+			await sleep(delay, options.signal);
+			if (options.signal?.aborted) {
+				throw new ZenbookerRequestCancelledError();
+			}
+			continue;
+		}
+
+		throw createZenbookerApiError(response.status, errorText, response.headers);
+	}
+}
+
 /**
  * Helper function to make authenticated API requests to the Zenbooker API
+ *
+ * This is the transport under ZenbookerClient; tool handlers should use the
+ * client's typed resource methods instead of calling it directly.
+ *
+ * Transient failures (network errors and retryable statuses such as 429 or 503)
+ * are retried with exponential backoff and jitter, honoring Retry-After. Only
+ * idempotent methods are retried unless an idempotency key is supplied.
+ *
+ * Each attempt, body included, is bounded by `options.timeoutMs`, and `options.signal` cancels
+ * the request (including any pending backoff) as soon as the client gives up.
+ *
+ * When `options.cache` is set, GET requests to endpoints listed in CACHE_TTLS are
+ * served from the cache, and successful mutations invalidate the resource they
+ * touched. The cache outcome is recorded in `options.meta.cache`.
+ *
+ * When `options.coalescer` is set, concurrent identical GET requests made with
+ * the same API key share a single upstream call (reported in `options.meta.coalesced`).
+ * When `options.rateLimiter` is set, upstream attempts are throttled per API key.
  * 
  * @param endpoint - The API endpoint path (e.g., '/customers', '/jobs/123')
  * @param method - HTTP method (GET, POST, PATCH, etc.)
  * @param body - Request body data for POST/PATCH requests
  * @param apiKey - Zenbooker API key for authentication
+ * @param options - Base URL, cancellation, timeout, cache, coalescing, rate limiting, idempotency key and retry policy overrides
  * @returns Promise resolving to the parsed JSON response
- * @throws Error if API key is missing or API request fails
+ * @throws Error if API key is missing, ZenbookerApiError subclass if the API request fails,
+ *   ZenbookerTimeoutError if every attempt timed out
  */
 export async function makeZenbookerRequest(
 	endpoint: string,
 	method: string = "GET",
 	body?: Record<string, unknown>,
-	apiKey?: string
+	apiKey?: string,
+	options: RequestOptions = {}
 ): Promise<ApiResponse> {
-	// Zenbooker API base URL
-	const ZENBOOKER_API_BASE = "https://api.zenbooker.com/v1";
-	
 	// Try to get API key from parameter, then global, then environment
 	const effectiveApiKey = apiKey;
 	
 	if (!effectiveApiKey) {
-		throw new Error("Zenbooker API key is required. Please set the ZENBOOKER_API_KEY environment variable.");
+		throw new Error("Zenbooker API key is required. Send it in the X-Zenbooker-Api-Key header when opening the session, or set the ZENBOOKER_API_KEY environment variable.");
+	}
+
+	const baseUrl = options.baseUrl ?? DEFAULT_ZENBOOKER_API_BASE;
+	const url = `${baseUrl}${endpoint}`;
+
+	// The same key identifies identical requests for caching and coalescing
+	const requestKey = buildCacheKey(baseUrl, effectiveApiKey, endpoint);
+	const cacheTtlMs = options.cache && method === "GET" ? getCacheTtl(endpoint) : undefined;
+	if (options.cache && cacheTtlMs !== undefined) {
+		const cached = options.fresh ? undefined : options.cache.get(requestKey);
+		if (options.meta) {
+			options.meta.cache = {
+				status: options.fresh ? "bypass" : cached !== undefined ? "hit" : "miss",
+				ttl_ms: cacheTtlMs,
+			};
+		}
+		if (cached !== undefined) {
+			return cached;
+		}
 	}
 
-	const url = `${ZENBOOKER_API_BASE}${endpoint}`;
-	const headers: HeadersInit = {
+	const headers: Record<string, string> = {
 		"Authorization": `Bearer ${effectiveApiKey}`,
 		"Content-Type": "application/json",
 	};
 
+	if (options.idempotencyKey) {
+		headers["Idempotency-Key"] = options.idempotencyKey;
+	}
+
 	const config: RequestInit = {
 		method,
 		headers,
@@ -89,27 +376,102 @@ export async function makeZenbookerRequest(
 		config.body = JSON.stringify(body);
 	}
 
-	const response = await fetch(url, config);
-	
-	if (!response.ok) {
-		const errorText = await response.text();
-		throw new Error(`Zenbooker API Error (${response.status}): ${errorText}`);
+	const execute = async (signal?: AbortSignal): Promise<ApiResponse> => {
+		const data = await sendWithRetry(url, config, fingerprint(effectiveApiKey), { ...options, signal });
+		if (options.cache && cacheTtlMs !== undefined) {
+			options.cache.set(requestKey, endpoint, data, cacheTtlMs);
+		} else if (options.cache && method !== "GET") {
+			options.cache.invalidate(getInvalidationPrefix(endpoint));
+		}
+		return data;
+	};
+
+	if (options.coalescer && method === "GET") {
+		const { promise, shared } = options.coalescer.run(requestKey, options.signal, execute);
+		if (shared && options.meta) {
+			options.meta.coalesced = { total: options.coalescer.coalescedCount };
+		}
+		return promise;
 	}
 
-	return response.json();
+	return execute(options.signal);
 }
 
 /**
  * Formats API response data into standard MCP tool result format
+ *
+ * When `context.fields` is set, the data is pruned to those fields first and
+ * the size saved is recorded in `context.meta.projection`. The text is then
+ * rendered in `context.format`. Object data is also returned as `structuredContent`.
+ *
+ * Text longer than `context.maxResponseChars` is saved in `context.resultStore`
+ * and only its beginning is returned, followed by a note on reading the rest
+ * with `read_result_chunk`. The handle, `total_chars` and `next_offset` are
+ * recorded in `context.meta.truncation` and are the only structured content of
+ * a truncated result, under `truncated`.
  * 
  * @param data - The data to format (typically from API response)
- * @returns Formatted tool result with JSON string content
+ * @param context - Tool context carrying the requested fields, output format and result metadata
+ * @returns Formatted tool result with text content
  */
-export function formatToolResult(data: unknown): ToolResult {
+export function formatToolResult(data: unknown, context?: ToolContext): ToolResult {
+	let output = data;
+
+	if (context?.fields?.length) {
+		output = projectFields(data, context.fields);
+		if (context.meta) {
+			const fullBytes = byteLength(JSON.stringify(data, null, 2));
+			const returnedBytes = byteLength(JSON.stringify(output, null, 2));
+			context.meta.projection = {
+				fields: context.fields,
+				returned_bytes: returnedBytes,
+				omitted_bytes: fullBytes - returnedBytes,
+			};
+		}
+	}
+
+	const text = renderOutput(output, context?.format, { fields: context?.fields, meta: context?.meta });
+	const maxChars = context?.maxResponseChars ?? DEFAULT_MAX_RESPONSE_CHARS;
+	if (context?.resultStore && text.length > maxChars) {
+		const handle = context.resultStore.save(text);
+		const truncation = { handle, total_chars: text.length, next_offset: maxChars };
+		if (context.meta) {
+			context.meta.truncation = truncation;
+		}
+		return {
+			content: [{
+				type: "text",
+				text: `${text.slice(0, maxChars)}\n\n${continuationNote(handle, maxChars, text.length)}`,
+			}],
+			structuredContent: { truncated: truncation },
+		};
+	}
+
 	return {
 		content: [{ 
 			type: "text", 
-			text: JSON.stringify(data, null, 2) 
+			text 
 		}],
+		structuredContent: isPlainObject(output) ? output : undefined,
 	};
-}
\ No newline at end of file
+}
+
+/**
+ * Checks whether a value is a JSON object (not an array or null)
+ *
+ * @param value - Value to check
+ * @returns True for plain objects
+ */
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+	return value !== null && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * UTF-8 size of a string
+ *
+ * @param text - Text to measure
+ * @returns Size in bytes
+ */
+function byteLength(text: string): number {
+	return new TextEncoder().encode(text).length;
+}
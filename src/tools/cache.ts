@@ -0,0 +1,137 @@
+/**
+ * Read-through response cache for Zenbooker GET requests
+ *
+ * Entries live in the Durable Object's SQLite storage so they survive
+ * hibernation and are scoped to a single MCP session.
+ */
+
+import type { ApiResponse } from "../types.js";
+
+/**
+ * Storage backend for cached responses
+ */
+export interface ResponseCache {
+	/** Returns the cached value, or undefined if missing or expired */
+	get(key: string): ApiResponse | undefined;
+	/** Stores a value under the key for the given number of milliseconds */
+	set(key: string, endpoint: string, value: ApiResponse, ttlMs: number): void;
+	/** Removes every entry whose endpoint is the given path or lies below it */
+	invalidate(pathPrefix: string): void;
+}
+
+/**
+ * Time-to-live for each cacheable endpoint, matched against the path without query string
+ *
+ * Only endpoints listed here are cached; everything else always goes upstream.
+ */
+export const CACHE_TTLS: ReadonlyArray<{ pattern: RegExp; ttlMs: number }> = [
+	// Territory definitions change rarely
+	{ pattern: /^\/territories$/, ttlMs: 10 * 60_000 },
+	// Staff roster changes occasionally during the day
+	{ pattern: /^\/team_members$/, ttlMs: 5 * 60_000 },
+	// Customer records are edited through this server, which invalidates them
+	{ pattern: /^\/customers\/[^/]+$/, ttlMs: 60_000 },
+];
+
+/**
+ * Looks up the cache TTL for an endpoint
+ *
+ * @param endpoint - API endpoint including any query string
+ * @returns TTL in milliseconds, or undefined if the endpoint is not cacheable
+ */
+export function getCacheTtl(endpoint: string): number | undefined {
+	const path = endpoint.split("?")[0];
+	return CACHE_TTLS.find(({ pattern }) => pattern.test(path))?.ttlMs;
+}
+
+/**
+ * Determines which cached paths a mutation makes stale
+ *
+ * A write anywhere below a resource (e.g. PATCH /customers/123) invalidates the
+ * whole resource collection, since list results may include the changed record.
+ *
+ * @param endpoint - Endpoint of the mutating request
+ * @returns Path prefix to invalidate
+ */
+export function getInvalidationPrefix(endpoint: string): string {
+	const [resource] = endpoint.split("?")[0].split("/").filter(Boolean);
+	return `/${resource ?? ""}`;
+}
+
+/**
+ * Short, non-reversible fingerprint so keys never contain the raw API key
+ *
+ * @param value - Value to fingerprint
+ * @returns 32-bit FNV-1a hash as hex
+ */
+export function fingerprint(value: string): string {
+	let hash = 0x811c9dc5;
+	for (let i = 0; i < value.length; i++) {
+		hash ^= value.charCodeAt(i);
+		hash = Math.imul(hash, 0x01000193);
+	}
+	return (hash >>> 0).toString(16).padStart(8, "0");
+}
+
+/**
+ * Builds the cache key for a request
+ *
+ * @param baseUrl - API base URL the request targets
+ * @param apiKey - API key the request is made with
+ * @param endpoint - Endpoint including query string
+ * @returns Cache key scoped to the account and API target
+ */
+export function buildCacheKey(baseUrl: string, apiKey: string, endpoint: string): string {
+	return `${fingerprint(apiKey)} ${baseUrl}${endpoint}`;
+}
+
+/**
+ * SQL tagged-template executor, as exposed by McpAgent.sql
+ */
+export type SqlExecutor = <T = Record<string, string | number | boolean | null>>(
+	strings: TemplateStringsArray,
+	...values: (string | number | boolean | null)[]
+) => T[];
+
+/**
+ * Response cache stored in Durable Object SQLite
+ */
+export class SqlResponseCache implements ResponseCache {
+	constructor(
+		private readonly sql: SqlExecutor,
+		private readonly now: () => number = Date.now
+	) {
+		this.sql`CREATE TABLE IF NOT EXISTS response_cache (
+			key TEXT PRIMARY KEY,
+			endpoint TEXT NOT NULL,
+			value TEXT NOT NULL,
+			expires_at INTEGER NOT NULL
+		)`;
+	}
+
+	get(key: string): ApiResponse | undefined {
+		const [row] = this.sql<{ value: string }>`
+			SELECT value FROM response_cache WHERE key = ${key} AND expires_at > ${this.now()}
+		`;
+		return row ? (JSON.parse(row.value) as ApiResponse) : undefined;
+	}
+
+	set(key: string, endpoint: string, value: ApiResponse, ttlMs: number): void {
+		const now = this.now();
+		// Opportunistically drop expired rows so the table stays small
+		this.sql`DELETE FROM response_cache WHERE expires_at <= ${now}`;
+		this.sql`
+			INSERT OR REPLACE INTO response_cache (key, endpoint, value, expires_at)
+			VALUES (${key}, ${endpoint}, ${JSON.stringify(value)}, ${now + ttlMs})
+		`;
+	}
+
+	invalidate(pathPrefix: string): void {
+		this.sql`
+			DELETE FROM response_cache
+			WHERE endpoint = ${pathPrefix}
+				OR endpoint LIKE ${`${pathPrefix}/%`}
+				OR endpoint LIKE ${`${pathPrefix}?%`}
+		`;
+	}
+}
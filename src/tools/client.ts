@@ -0,0 +1,214 @@
+/**
+ * Typed client for the Zenbooker API
+ *
+ * Tool handlers go through this client instead of building endpoint strings
+ * themselves. Each resource method takes the request types from types.ts,
+ * validates the response against its schema and returns the matching typed
+ * response.
+ */
+
+import type { z } from "zod";
+import {
+	availableAppointmentsResponseSchema,
+	couponSchema,
+	customerSchema,
+	customersResponseSchema,
+	invoiceSchema,
+	invoicesResponseSchema,
+	jobSchema,
+	jobsResponseSchema,
+	recurringBookingsResponseSchema,
+	schedulingResponseSchema,
+	teamMemberSchema,
+	teamMembersResponseSchema,
+	territoriesResponseSchema,
+	transactionsResponseSchema,
+} from "../schemas.js";
+import type {
+	AdjacentTerritoriesParams,
+	AvailableAppointmentsParams,
+	AvailableAppointmentsResponse,
+	CancelJobRequest,
+	Coupon,
+	CreateCouponRequest,
+	CreateCustomerRequest,
+	CreateJobRequest,
+	Customer,
+	CustomerFilters,
+	CustomersResponse,
+	Invoice,
+	InvoiceFilters,
+	InvoicesResponse,
+	Job,
+	JobFilters,
+	JobsResponse,
+	RecurringBookingFilters,
+	RecurringBookingsResponse,
+	RescheduleJobRequest,
+	SchedulingResponse,
+	TeamMember,
+	TeamMemberFilters,
+	TeamMembersResponse,
+	TerritoriesResponse,
+	TerritoryCoverageParams,
+	TerritoryFilters,
+	TransactionFilters,
+	TransactionsResponse,
+	UpdateCustomerRequest,
+	UpdateJobRequest,
+} from "../types.js";
+import { buildQueryParams, makeZenbookerRequest, type ToolContext } from "./base.js";
+import { validateResponse } from "./validation.js";
+
+/**
+ * Encodes a caller-supplied ID for use as a single path segment
+ *
+ * Without this an ID such as `../invoices` or `123?status=paid` would change
+ * which endpoint is requested. Percent-encoding leaves `.`, `..` and the empty
+ * string unchanged, and URL resolution would turn them into the parent or list
+ * endpoint, so they are refused.
+ *
+ * @param id - Resource ID from tool input
+ * @returns The percent-encoded path segment
+ * @throws Error if the ID is empty or a dot segment
+ */
+export function encodePathSegment(id: string): string {
+	if (id === "" || id === "." || id === "..") {
+		throw new Error(`Invalid resource ID "${id}": IDs cannot be empty, "." or ".."`);
+	}
+	return encodeURIComponent(id);
+}
+
+/**
+ * Appends a query string built from the given parameters, if any are set
+ *
+ * @param path - Endpoint path without query string
+ * @param query - Query parameters; undefined values are skipped
+ * @returns Endpoint including the query string
+ */
+function withQuery(path: string, query?: object): string {
+	const queryString = query ? buildQueryParams(query).toString() : "";
+	return queryString ? `${path}?${queryString}` : path;
+}
+
+/**
+ * Options for a single client request
+ */
+interface ClientRequestOptions {
+	/** Query parameters; undefined values are skipped */
+	query?: object;
+	/** JSON request body for POST/PATCH requests */
+	body?: object;
+	/** Schema the response is validated against according to the validation mode */
+	schema?: z.ZodTypeAny;
+}
+
+/**
+ * Client for one API key and one tool invocation
+ *
+ * The context carries the base URL, cancellation signal, cache, coalescer,
+ * rate limiter and validation mode, and is passed to every request made.
+ * In lenient validation mode a drifted response is still returned under its
+ * declared type, so callers should not rely on optional fields being present.
+ */
+export class ZenbookerClient {
+	constructor(
+		private readonly apiKey?: string,
+		private readonly context: ToolContext = {}
+	) {}
+
+	readonly jobs = {
+		list: (filters: JobFilters = {}) =>
+			this.request<JobsResponse>("GET", "/jobs", { query: filters, schema: jobsResponseSchema }),
+		get: (id: string) =>
+			this.request<Job>("GET", `/jobs/${encodePathSegment(id)}`, { schema: jobSchema }),
+		create: (job: CreateJobRequest) =>
+			this.request<Job>("POST", "/jobs", { body: job, schema: jobSchema }),
+		update: (id: string, changes: UpdateJobRequest) =>
+			this.request<Job>("PATCH", `/jobs/${encodePathSegment(id)}`, { body: changes, schema: jobSchema }),
+		reschedule: (id: string, changes: RescheduleJobRequest) =>
+			this.request<Job>("POST", `/jobs/${encodePathSegment(id)}/reschedule`, { body: changes, schema: jobSchema }),
+		cancel: (id: string, cancellation: CancelJobRequest) =>
+			this.request<Job>("POST", `/jobs/${encodePathSegment(id)}/cancel`, { body: cancellation, schema: jobSchema }),
+	};
+
+	readonly customers = {
+		list: (filters: CustomerFilters = {}) =>
+			this.request<CustomersResponse>("GET", "/customers", { query: filters, schema: customersResponseSchema }),
+		get: (id: string) =>
+			this.request<Customer>("GET", `/customers/${encodePathSegment(id)}`, { schema: customerSchema }),
+		create: (customer: CreateCustomerRequest) =>
+			this.request<Customer>("POST", "/customers", { body: customer, schema: customerSchema }),
+		update: (id: string, changes: UpdateCustomerRequest) =>
+			this.request<Customer>("PATCH", `/customers/${encodePathSegment(id)}`, { body: changes, schema: customerSchema }),
+	};
+
+	readonly invoices = {
+		list: (filters: InvoiceFilters = {}) =>
+			this.request<InvoicesResponse>("GET", "/invoices", { query: filters, schema: invoicesResponseSchema }),
+		get: (id: string) =>
+			this.request<Invoice>("GET", `/invoices/${encodePathSegment(id)}`, { schema: invoiceSchema }),
+	};
+
+	readonly transactions = {
+		list: (filters: TransactionFilters = {}) =>
+			this.request<TransactionsResponse>("GET", "/transactions", { query: filters, schema: transactionsResponseSchema }),
+	};
+
+	readonly teamMembers = {
+		list: (filters: TeamMemberFilters = {}) =>
+			this.request<TeamMembersResponse>("GET", "/team_members", { query: filters, schema: teamMembersResponseSchema }),
+		get: (id: string) =>
+			this.request<TeamMember>("GET", `/team_members/${encodePathSegment(id)}`, { schema: teamMemberSchema }),
+	};
+
+	readonly recurringBookings = {
+		list: (filters: RecurringBookingFilters = {}) =>
+			this.request<RecurringBookingsResponse>("GET", "/recurring", { query: filters, schema: recurringBookingsResponseSchema }),
+	};
+
+	readonly territories = {
+		list: (filters: TerritoryFilters = {}) =>
+			this.request<TerritoriesResponse>("GET", "/territories", { query: filters, schema: territoriesResponseSchema }),
+		checkCoverage: (params: TerritoryCoverageParams) =>
+			this.request<SchedulingResponse>("GET", "/territories/check-coverage", { query: params, schema: schedulingResponseSchema }),
+		checkAdjacent: (params: AdjacentTerritoriesParams) =>
+			this.request<SchedulingResponse>("GET", "/territories/check-adjacent", { query: params, schema: schedulingResponseSchema }),
+	};
+
+	readonly coupons = {
+		create: (coupon: CreateCouponRequest) =>
+			this.request<Coupon>("POST", "/coupons", { body: coupon, schema: couponSchema }),
+	};
+
+	readonly scheduling = {
+		availableAppointments: (params: AvailableAppointmentsParams) =>
+			this.request<AvailableAppointmentsResponse>("GET", "/scheduling/available-appointments", {
+				query: params,
+				schema: availableAppointmentsResponseSchema,
+			}),
+	};
+
+	/**
+	 * Sends a request and validates the response
+	 *
+	 * @param method - HTTP method
+	 * @param path - Endpoint path; any IDs in it must already be encoded
+	 * @param options - Query parameters, request body and response schema
+	 * @returns The response, typed as T
+	 * @throws ZenbookerApiError subclass if the request fails, ZenbookerResponseValidationError
+	 *   if the response does not match its schema in strict mode
+	 */
+	async request<T>(method: string, path: string, options: ClientRequestOptions = {}): Promise<T> {
+		const endpoint = withQuery(path, options.query);
+		const data = await makeZenbookerRequest(
+			endpoint,
+			method,
+			options.body as Record<string, unknown> | undefined,
+			this.apiKey,
+			this.context
+		);
+		const checked = options.schema ? validateResponse(options.schema, data, endpoint, this.context) : data;
+		return checked as T;
+	}
+}
@@ -0,0 +1,112 @@
+/**
+ * Deduplication of identical in-flight Zenbooker GET requests
+ */
+
+import type { ApiResponse } from "../types.js";
+import { ZenbookerRequestCancelledError } from "./errors.js";
+
+/**
+ * A shared upstream request and the callers waiting on it
+ */
+interface InFlightRequest {
+	promise: Promise<ApiResponse>;
+	controller: AbortController;
+	waiters: number;
+}
+
+/**
+ * Shares one upstream promise between concurrent identical requests
+ *
+ * Held by the Durable Object, so coalescing happens per MCP session. Request
+ * keys include an API key fingerprint, so different accounts never share a
+ * response. The upstream request is only aborted once every waiting caller
+ * has cancelled.
+ */
+export class RequestCoalescer {
+	private readonly inFlight = new Map<string, InFlightRequest>();
+	private coalesced = 0;
+
+	/**
+	 * Number of calls that were answered by joining an existing request
+	 */
+	get coalescedCount(): number {
+		return this.coalesced;
+	}
+
+	/**
+	 * Number of distinct upstream requests currently pending
+	 */
+	get inFlightCount(): number {
+		return this.inFlight.size;
+	}
+
+	/**
+	 * Runs the request, or joins an identical one that is already in flight
+	 *
+	 * @param key - Key identifying identical requests
+	 * @param signal - Cancellation signal of this caller
+	 * @param execute - Starts the upstream request with the shared abort signal
+	 * @returns The shared response promise and whether it was joined
+	 */
+	run(
+		key: string,
+		signal: AbortSignal | undefined,
+		execute: (signal: AbortSignal) => Promise<ApiResponse>
+	): { promise: Promise<ApiResponse>; shared: boolean } {
+		let entry = this.inFlight.get(key);
+		const shared = entry !== undefined;
+
+		if (entry) {
+			this.coalesced++;
+		} else {
+			const controller = new AbortController();
+			const created: InFlightRequest = {
+				controller,
+				waiters: 0,
+				promise: execute(controller.signal).finally(() => {
+					if (this.inFlight.get(key) === created) {
+						this.inFlight.delete(key);
+					}
+				}),
+			};
+			// Every waiter may cancel; keep a settled rejection from being reported as unhandled
+			created.promise.catch(() => {});
+			this.inFlight.set(key, created);
+			entry = created;
+		}
+
+		entry.waiters++;
+		return { promise: this.waitFor(entry, signal), shared };
+	}
+
+	/**
+	 * Waits on a shared request while honoring this caller's own cancellation
+	 *
+	 * @param entry - The shared request
+	 * @param signal - Cancellation signal of this caller
+	 * @returns The shared response
+	 */
+	private waitFor(entry: InFlightRequest, signal: AbortSignal | undefined): Promise<ApiResponse> {
+		if (!signal) {
+			return entry.promise;
+		}
+
+		return new Promise((resolve, reject) => {
+			const onCancel = () => {
+				entry.waiters--;
+				if (entry.waiters === 0) {
+					entry.controller.abort();
+				}
+				reject(new ZenbookerRequestCancelledError());
+			};
+			if (signal.aborted) {
+				onCancel();
+				return;
+			}
+			signal.addEventListener("abort", onCancel, { once: true });
+			entry.promise.then(resolve, reject).finally(() => {
+				signal.removeEventListener("abort", onCancel);
+			});
+		});
+	}
+}
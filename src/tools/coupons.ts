@@ -3,7 +3,10 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, type ToolImplementation } from "./base.js";
+import { couponSchema } from "../schemas.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputShape } from "./output-schema.js";
 
 /**
  * Create coupon tool implementation
@@ -22,9 +25,10 @@ export const createCouponTool: ToolImplementation = {
 		max_uses: z.number().optional().describe("Maximum number of times this coupon can be used across all customers"),
 		min_order_value: z.number().optional().describe("Minimum order value required to use this coupon (in dollars)"),
 	},
-	handler: async (params, apiKey) => {
-		const result = await makeZenbookerRequest("/coupons", "POST", params, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(couponSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).coupons.create(params), context);
 	}
 };
 
@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { customerSchema, customersResponseSchema } from "../schemas.js";
+import { formatToolResult, cacheControlSchema, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { outputShape, paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List customers tool implementation
@@ -17,12 +23,14 @@ export const listCustomersTool: ToolImplementation = {
 		search: z.string().optional().describe("Search customers by name, email, or phone number"),
 		email: z.string().optional().describe("Filter customers by exact email address"),
 		phone: z.string().optional().describe("Filter customers by phone number"),
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/customers${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(customersResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.customers.list(filters)), context);
 	}
 };
 
@@ -33,11 +41,13 @@ export const getCustomerTool: ToolImplementation = {
 	name: "get_customer",
 	description: "Retrieve detailed information for a specific customer by their unique ID. Returns complete customer profile including contact information, address, and account details.",
 	schema: {
-		id: z.string().describe("The unique customer ID to retrieve detailed information for"),
+		id: z.string().min(1).describe("The unique customer ID to retrieve detailed information for"),
+		...cacheControlSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const result = await makeZenbookerRequest(`/customers/${params.id}`, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(customerSchema),
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).customers.get(params.id), context);
 	}
 };
 
@@ -58,9 +68,10 @@ export const createCustomerTool: ToolImplementation = {
 		zip: z.string().optional().describe("Customer's ZIP or postal code"),
 		notes: z.string().optional().describe("Additional notes or comments about the customer"),
 	},
-	handler: async (params, apiKey) => {
-		const result = await makeZenbookerRequest("/customers", "POST", params, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(customerSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).customers.create(params), context);
 	}
 };
 
@@ -71,7 +82,7 @@ export const updateCustomerTool: ToolImplementation = {
 	name: "update_customer",
 	description: "Update an existing customer's information. Provide the customer ID and any fields you want to modify. All fields except ID are optional and only provided fields will be updated.",
 	schema: {
-		id: z.string().describe("The unique customer ID to update"),
+		id: z.string().min(1).describe("The unique customer ID to update"),
 		first_name: z.string().optional().describe("Updated first name for the customer"),
 		last_name: z.string().optional().describe("Updated last name for the customer"),
 		email: z.string().email().optional().describe("Updated email address (must be valid email format)"),
@@ -82,10 +93,11 @@ export const updateCustomerTool: ToolImplementation = {
 		zip: z.string().optional().describe("Updated ZIP or postal code"),
 		notes: z.string().optional().describe("Updated notes or comments about the customer"),
 	},
-	handler: async (params, apiKey) => {
+	outputSchema: outputShape(customerSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
 		const { id, ...updateData } = params;
-		const result = await makeZenbookerRequest(`/customers/${id}`, "PATCH", updateData, apiKey);
-		return formatToolResult(result);
+		return formatToolResult(await new ZenbookerClient(apiKey, context).customers.update(id, updateData), context);
 	}
 };
 
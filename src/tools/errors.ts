@@ -0,0 +1,339 @@
+/**
+ * Typed errors for Zenbooker API failures and their conversion to MCP tool results
+ */
+
+import { redactText } from "../logger.js";
+import type { ApiError } from "../types.js";
+import type { ToolResult } from "./base.js";
+import { parseRetryAfter } from "./retry.js";
+
+/**
+ * Options accepted by ZenbookerApiError constructors
+ */
+export interface ZenbookerApiErrorOptions {
+	code?: string;
+	details?: Record<string, string>;
+}
+
+/**
+ * Error raised when the Zenbooker API responds with a non-2xx status
+ *
+ * The message keeps the `Zenbooker API Error (status): ...` form so it remains
+ * readable in logs, while status, code and details are available as fields.
+ */
+export class ZenbookerApiError extends Error {
+	readonly status: number;
+	readonly code?: string;
+	readonly details?: Record<string, string>;
+	/** The upstream explanation without the status prefix */
+	readonly apiMessage: string;
+	/** Whether repeating the same call later may succeed */
+	readonly retryable: boolean = false;
+
+	constructor(status: number, apiMessage: string, options: ZenbookerApiErrorOptions = {}) {
+		super(`Zenbooker API Error (${status}): ${apiMessage}`);
+		this.name = "ZenbookerApiError";
+		this.status = status;
+		this.apiMessage = apiMessage;
+		this.code = options.code;
+		this.details = options.details;
+	}
+
+	/**
+	 * Guidance for the model on how to recover from this error
+	 */
+	get hint(): string {
+		return "The request was rejected by Zenbooker. Review the parameters before trying again.";
+	}
+}
+
+/**
+ * 401/403 - the API key is missing, invalid or lacks permission
+ */
+export class ZenbookerAuthError extends ZenbookerApiError {
+	constructor(status: number, apiMessage: string, options?: ZenbookerApiErrorOptions) {
+		super(status, apiMessage, options);
+		this.name = "ZenbookerAuthError";
+	}
+
+	get hint(): string {
+		return "The Zenbooker API key is invalid or lacks permission for this operation. Retrying will not help; the server operator must fix the credentials.";
+	}
+}
+
+/**
+ * 404 - the requested resource does not exist
+ */
+export class ZenbookerNotFoundError extends ZenbookerApiError {
+	constructor(status: number, apiMessage: string, options?: ZenbookerApiErrorOptions) {
+		super(status, apiMessage, options);
+		this.name = "ZenbookerNotFoundError";
+	}
+
+	get hint(): string {
+		return "The requested record does not exist. Check the ID, or use a list_* tool to look it up.";
+	}
+}
+
+/**
+ * 400/422 - the request parameters were rejected
+ */
+export class ZenbookerValidationError extends ZenbookerApiError {
+	constructor(status: number, apiMessage: string, options?: ZenbookerApiErrorOptions) {
+		super(status, apiMessage, options);
+		this.name = "ZenbookerValidationError";
+	}
+
+	get hint(): string {
+		return "Zenbooker rejected the parameters. Correct the fields listed below and call the tool again.";
+	}
+}
+
+/**
+ * 429 - the Zenbooker rate limit was exceeded
+ */
+export class ZenbookerRateLimitError extends ZenbookerApiError {
+	override readonly retryable = true;
+	/** Delay requested by Zenbooker before retrying, in milliseconds */
+	readonly retryAfterMs?: number;
+
+	constructor(
+		status: number,
+		apiMessage: string,
+		options: ZenbookerApiErrorOptions & { retryAfterMs?: number } = {}
+	) {
+		super(status, apiMessage, options);
+		this.name = "ZenbookerRateLimitError";
+		this.retryAfterMs = options.retryAfterMs;
+	}
+
+	get hint(): string {
+		const wait = this.retryAfterMs !== undefined
+			? `about ${Math.ceil(this.retryAfterMs / 1000)} seconds`
+			: "a short while";
+		return `Zenbooker is rate limiting requests. Wait ${wait} before calling the tool again.`;
+	}
+}
+
+/**
+ * 5xx - Zenbooker failed to process an otherwise valid request
+ */
+export class ZenbookerUpstreamError extends ZenbookerApiError {
+	override readonly retryable = true;
+
+	constructor(status: number, apiMessage: string, options?: ZenbookerApiErrorOptions) {
+		super(status, apiMessage, options);
+		this.name = "ZenbookerUpstreamError";
+	}
+
+	get hint(): string {
+		return "Zenbooker is temporarily unavailable. The call can be retried later.";
+	}
+}
+
+/**
+ * Raised when Zenbooker does not respond within the request timeout
+ */
+export class ZenbookerTimeoutError extends Error {
+	readonly retryable = true;
+	readonly timeoutMs: number;
+
+	constructor(timeoutMs: number) {
+		super(`Zenbooker API request timed out after ${timeoutMs}ms`);
+		this.name = "ZenbookerTimeoutError";
+		this.timeoutMs = timeoutMs;
+	}
+
+	get hint(): string {
+		return "Zenbooker did not respond in time. The call can be retried; narrow the query (for example a smaller limit or date range) if it keeps timing out.";
+	}
+}
+
+/**
+ * Raised when the MCP client cancels a request while it is in flight
+ */
+export class ZenbookerRequestCancelledError extends Error {
+	constructor() {
+		super("Zenbooker API request was cancelled by the client");
+		this.name = "ZenbookerRequestCancelledError";
+	}
+}
+
+/**
+ * One mismatch between a Zenbooker response and its expected schema
+ */
+export interface ResponseIssue {
+	/** Dotted path to the offending field, e.g. "results.0.status" */
+	path: string;
+	message: string;
+}
+
+/**
+ * Raised in strict validation mode when a response does not match its schema
+ *
+ * This indicates the Zenbooker API changed shape, so it is not retryable.
+ */
+export class ZenbookerResponseValidationError extends Error {
+	readonly retryable = false;
+	readonly endpoint: string;
+	readonly issues: ResponseIssue[];
+
+	constructor(endpoint: string, issues: ResponseIssue[]) {
+		super(`Zenbooker API response for ${endpoint} did not match the expected schema`);
+		this.name = "ZenbookerResponseValidationError";
+		this.endpoint = endpoint;
+		this.issues = issues;
+	}
+
+	get hint(): string {
+		return "The Zenbooker API returned data in an unexpected format. Retrying will not help; report this so the server can be updated.";
+	}
+}
+
+/**
+ * Parses an error response body into the ApiError shape, if it is JSON
+ *
+ * @param bodyText - Raw response body
+ * @returns The parsed body, or undefined if it is not a JSON object
+ */
+function parseErrorBody(bodyText: string): Partial<ApiError> | undefined {
+	try {
+		const parsed: unknown = JSON.parse(bodyText);
+		if (parsed && typeof parsed === "object" && !Array.isArray(parsed)) {
+			return parsed as Partial<ApiError>;
+		}
+	} catch {
+		// Not JSON - fall through to the raw text
+	}
+	return undefined;
+}
+
+/**
+ * Longest part of a non-JSON error body kept in the error message
+ */
+const MAX_RAW_ERROR_BODY_CHARS = 500;
+
+/**
+ * Creates the appropriate ZenbookerApiError subclass for a failed response
+ *
+ * A body that is not a JSON error object may be an echo of the request or an
+ * HTML error page, so only its beginning is kept, with customer details masked.
+ *
+ * @param status - HTTP status code of the response
+ * @param bodyText - Raw response body
+ * @param headers - Response headers, used to read Retry-After
+ * @returns A typed error describing the failure
+ */
+export function createZenbookerApiError(
+	status: number,
+	bodyText: string,
+	headers?: Headers
+): ZenbookerApiError {
+	const body = parseErrorBody(bodyText);
+	const apiMessage = body?.message ?? body?.error ?? (redactText(bodyText.slice(0, MAX_RAW_ERROR_BODY_CHARS)) || `HTTP ${status}`);
+	const options: ZenbookerApiErrorOptions = {
+		code: body?.code,
+		details: body?.details,
+	};
+
+	if (status === 401 || status === 403) {
+		return new ZenbookerAuthError(status, apiMessage, options);
+	}
+	if (status === 404) {
+		return new ZenbookerNotFoundError(status, apiMessage, options);
+	}
+	if (status === 400 || status === 422) {
+		return new ZenbookerValidationError(status, apiMessage, options);
+	}
+	if (status === 429) {
+		return new ZenbookerRateLimitError(status, apiMessage, {
+			...options,
+			retryAfterMs: parseRetryAfter(headers?.get("Retry-After")),
+		});
+	}
+	if (status >= 500) {
+		return new ZenbookerUpstreamError(status, apiMessage, options);
+	}
+	return new ZenbookerApiError(status, apiMessage, options);
+}
+
+/**
+ * Converts an error thrown by a tool handler into an MCP error result
+ *
+ * The text is written for the model: what failed, why, and what to do next.
+ * Machine-readable fields are included in `_meta.error`.
+ *
+ * @param error - The error thrown by the handler
+ * @returns Tool result with `isError: true`
+ */
+export function formatToolError(error: unknown): ToolResult {
+	if (error instanceof ZenbookerApiError) {
+		const lines = [`Zenbooker API error ${error.status}: ${error.apiMessage}`, error.hint];
+		if (error.details && Object.keys(error.details).length > 0) {
+			lines.push("Field errors:");
+			for (const [field, problem] of Object.entries(error.details)) {
+				lines.push(`- ${field}: ${problem}`);
+			}
+		}
+
+		return {
+			content: [{ type: "text", text: lines.join("\n") }],
+			isError: true,
+			_meta: {
+				error: {
+					type: error.name,
+					status: error.status,
+					code: error.code,
+					details: error.details,
+					retryable: error.retryable,
+				},
+			},
+		};
+	}
+
+	if (error instanceof ZenbookerTimeoutError) {
+		return {
+			content: [{ type: "text", text: `${error.message}.\n${error.hint}` }],
+			isError: true,
+			_meta: {
+				error: {
+					type: error.name,
+					timeoutMs: error.timeoutMs,
+					retryable: error.retryable,
+				},
+			},
+		};
+	}
+
+	if (error instanceof ZenbookerResponseValidationError) {
+		const lines = [`${error.message}.`, error.hint, "Mismatches:"];
+		for (const issue of error.issues) {
+			lines.push(`- ${issue.path || "(response)"}: ${issue.message}`);
+		}
+
+		return {
+			content: [{ type: "text", text: lines.join("\n") }],
+			isError: true,
+			_meta: {
+				error: {
+					type: error.name,
+					endpoint: error.endpoint,
+					issues: error.issues,
+					retryable: error.retryable,
+				},
+			},
+		};
+	}
+
+	const message = error instanceof Error ? error.message : String(error);
+	return {
+		content: [{ type: "text", text: `Tool execution failed: ${message}` }],
+		isError: true,
+		_meta: {
+			error: {
+				type: error instanceof Error ? error.name : "Error",
+				retryable: false,
+			},
+		},
+	};
+}
@@ -4,6 +4,19 @@
 
 // Export all tool modules
 export * from "./base.js";
+export * from "./retry.js";
+export * from "./errors.js";
+export * from "./cache.js";
+export * from "./coalescer.js";
+export * from "./rate-limiter.js";
+export * from "./validation.js";
+export * from "./client.js";
+export * from "./pagination.js";
+export * from "./projection.js";
+export * from "./output-format.js";
+export * from "./output-schema.js";
+export * from "./result-store.js";
+export * from "./account-directory.js";
 export * from "./jobs.js";
 export * from "./customers.js";
 export * from "./invoices.js";
@@ -13,6 +26,8 @@ export * from "./recurring-bookings.js";
 export * from "./territories.js";
 export * from "./coupons.js";
 export * from "./scheduling.js";
+export * from "./results.js";
+export * from "./accounts.js";
 
 // Import all tool arrays
 import { jobsTools } from "./jobs.js";
@@ -24,6 +39,8 @@ import { recurringBookingTools } from "./recurring-bookings.js";
 import { territoryTools } from "./territories.js";
 import { couponTools } from "./coupons.js";
 import { schedulingTools } from "./scheduling.js";
+import { resultTools } from "./results.js";
+import { accountTools } from "./accounts.js";
 
 /**
  * All available tools grouped by category
@@ -38,6 +55,8 @@ export const toolsByCategory = {
 	territories: territoryTools,
 	coupons: couponTools,
 	scheduling: schedulingTools,
+	results: resultTools,
+	accounts: accountTools,
 } as const;
 
 /**
@@ -53,6 +72,8 @@ export const allTools = [
 	...territoryTools,
 	...couponTools,
 	...schedulingTools,
+	...resultTools,
+	...accountTools,
 ] as const;
 
 /**
@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { invoiceSchema, invoicesResponseSchema } from "../schemas.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { outputShape, paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List invoices tool implementation
@@ -18,12 +24,14 @@ export const listInvoicesTool: ToolImplementation = {
 		status: z.string().optional().describe("Filter invoices by status (e.g., 'draft', 'sent', 'paid', 'overdue')"),
 		start_date: z.string().optional().describe("Filter invoices created on or after this date (ISO 8601 format: YYYY-MM-DD)"),
 		end_date: z.string().optional().describe("Filter invoices created on or before this date (ISO 8601 format: YYYY-MM-DD)"),
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/invoices${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(invoicesResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.invoices.list(filters)), context);
 	}
 };
 
@@ -34,11 +42,12 @@ export const getInvoiceTool: ToolImplementation = {
 	name: "get_invoice",
 	description: "Retrieve detailed information for a specific invoice by its unique ID. Returns comprehensive invoice data including line items, payment history, and customer details.",
 	schema: {
-		id: z.string().describe("The unique invoice ID to retrieve detailed information for"),
+		id: z.string().min(1).describe("The unique invoice ID to retrieve detailed information for"),
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const result = await makeZenbookerRequest(`/invoices/${params.id}`, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(invoiceSchema),
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).invoices.get(params.id), context);
 	}
 };
 
@@ -0,0 +1,146 @@
+/**
+ * Checks run before a job is assigned to a team member
+ *
+ * A member can only take jobs at addresses inside one of their territories,
+ * and a dispatcher should hear about jobs already booked in the same time
+ * window. Territories are matched on their zip codes, cities or states, in
+ * that order of precedence, because that is how Zenbooker defines them.
+ */
+
+import type { Job, TeamMember, Territory } from "../types.js";
+
+/**
+ * Raised when a job cannot be assigned to the requested team member
+ */
+export class JobAssignmentError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "JobAssignmentError";
+	}
+}
+
+/**
+ * Statuses of jobs that no longer take up a team member's time
+ */
+const CLOSED_JOB_STATUSES: ReadonlyArray<Job["status"]> = ["completed", "cancelled"];
+
+/**
+ * Escapes text for use inside a regular expression
+ */
+function escapeRegExp(text: string): string {
+	return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Checks whether a name appears in an address as a whole word, ignoring case
+ */
+function containsName(address: string, name: string): boolean {
+	return new RegExp(`(^|[^a-z])${escapeRegExp(name.trim())}($|[^a-z])`, "i").test(address);
+}
+
+/**
+ * Finds the zip code of a US address
+ *
+ * @param address - Full address, e.g. "123 Main St, Springfield, IL 62701"
+ * @returns The last five-digit code in the address, so a five-digit street number is not mistaken for it
+ */
+function findZipCode(address: string): string | undefined {
+	const matches = Array.from(address.matchAll(/\b(\d{5})(?:-\d{4})?\b/g));
+	return matches[matches.length - 1]?.[1];
+}
+
+/**
+ * Checks whether an address lies in a territory
+ *
+ * The most specific criterion the territory defines decides: its zip codes,
+ * else its cities, else its states. Inactive territories cover nothing.
+ *
+ * @param territory - Territory to check
+ * @param address - Full address of the job
+ * @returns True if the territory covers the address
+ */
+export function territoryCoversAddress(territory: Territory, address: string): boolean {
+	if (!territory.active) {
+		return false;
+	}
+	if (territory.zip_codes && territory.zip_codes.length > 0) {
+		const zip = findZipCode(address);
+		return zip !== undefined && territory.zip_codes.includes(zip);
+	}
+	if (territory.cities && territory.cities.length > 0) {
+		return territory.cities.some((city) => containsName(address, city));
+	}
+	if (territory.states && territory.states.length > 0) {
+		return territory.states.some((state) => containsName(address, state));
+	}
+	return false;
+}
+
+/**
+ * Checks that a team member can take a job
+ *
+ * @param job - Job to assign
+ * @param member - Team member to assign it to
+ * @param territories - All territories, from which the member's are looked up by ID
+ * @throws JobAssignmentError if the member is inactive, has no territories, or none of
+ *   their territories covers the job address
+ */
+export function checkAssignment(job: Job, member: TeamMember, territories: Territory[]): void {
+	const name = `${member.first_name} ${member.last_name} (${member.id})`;
+	if (!member.active) {
+		throw new JobAssignmentError(`Team member ${name} is not active and cannot be assigned jobs`);
+	}
+	if (!job.address) {
+		throw new JobAssignmentError(`Job ${job.id} has no address, so its territory cannot be checked`);
+	}
+	const memberTerritories = territories.filter((territory) => member.territories?.includes(territory.id));
+	if (memberTerritories.length === 0) {
+		throw new JobAssignmentError(`Team member ${name} does not work in any territory`);
+	}
+	if (!memberTerritories.some((territory) => territoryCoversAddress(territory, job.address as string))) {
+		throw new JobAssignmentError(
+			`Job ${job.id} at "${job.address}" is outside the territories of team member ${name}: ` +
+				memberTerritories.map((territory) => territory.name).join(", ")
+		);
+	}
+}
+
+/**
+ * Works out when a job starts and ends
+ *
+ * @param job - The job
+ * @returns Start and end in milliseconds, or undefined if the start or length of the job is unknown
+ */
+export function jobInterval(job: Job): { start: number; end: number } | undefined {
+	const start = Date.parse(job.start_time);
+	const end = job.end_time
+		? Date.parse(job.end_time)
+		: job.duration_minutes !== undefined
+			? start + job.duration_minutes * 60_000
+			: Number.NaN;
+	return Number.isNaN(start) || Number.isNaN(end) ? undefined : { start, end };
+}
+
+/**
+ * Finds jobs in a team member's schedule that overlap a job
+ *
+ * Jobs that are completed or cancelled, or whose time window is unknown, are ignored.
+ *
+ * @param job - Job about to be assigned
+ * @param memberId - Team member it is assigned to
+ * @param schedule - Jobs around the job's time, for any team member
+ * @returns The member's other jobs whose time window overlaps the job's
+ */
+export function findOverlappingJobs(job: Job, memberId: string, schedule: Job[]): Job[] {
+	const interval = jobInterval(job);
+	if (!interval) {
+		return [];
+	}
+	return schedule.filter((other) => {
+		if (other.id === job.id || other.assigned_team_member_id !== memberId || CLOSED_JOB_STATUSES.includes(other.status)) {
+			return false;
+		}
+		const otherInterval = jobInterval(other);
+		return otherInterval !== undefined && otherInterval.start < interval.end && interval.start < otherInterval.end;
+	});
+}
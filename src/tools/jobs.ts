@@ -3,7 +3,15 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { appointmentSlotSchema, jobSchema, jobsResponseSchema } from "../schemas.js";
+import type { AppointmentSlot, Job, JobStatus } from "../types.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { checkAssignment, findOverlappingJobs, jobInterval } from "./job-assignment.js";
+import { outputFormatSchema } from "./output-format.js";
+import { outputShape, paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List jobs tool implementation
@@ -18,12 +26,14 @@ export const listJobsTool: ToolImplementation = {
 		status: z.string().optional().describe("Filter jobs by status (e.g., 'pending', 'completed', 'cancelled')"),
 		start_date: z.string().optional().describe("Filter jobs scheduled on or after this date (ISO 8601 format: YYYY-MM-DD)"),
 		end_date: z.string().optional().describe("Filter jobs scheduled on or before this date (ISO 8601 format: YYYY-MM-DD)"),
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/jobs${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(jobsResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.jobs.list(filters)), context);
 	}
 };
 
@@ -34,11 +44,425 @@ export const getJobTool: ToolImplementation = {
 	name: "get_job",
 	description: "Retrieve detailed information for a specific job by its unique ID. Returns comprehensive job data including customer details, scheduling, status, and service information.",
 	schema: {
-		id: z.string().describe("The unique job ID to retrieve detailed information for"),
+		id: z.string().min(1).describe("The unique job ID to retrieve detailed information for"),
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const result = await makeZenbookerRequest(`/jobs/${params.id}`, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(jobSchema),
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).jobs.get(params.id), context);
+	}
+};
+
+/**
+ * Raised when create_job is given a slot it cannot book
+ */
+export class InvalidAppointmentSlotError extends Error {
+	constructor(message: string) {
+		super(`${message}. Pick a slot from a fresh get_available_appointments call and pass it unchanged.`);
+		this.name = "InvalidAppointmentSlotError";
+	}
+}
+
+/**
+ * Checks a slot chosen from get_available_appointments before it is booked
+ *
+ * @param slot - The slot as returned in `data.available_slots`
+ * @param teamMemberId - Team member requested by the caller, if any
+ * @param now - Current time in milliseconds
+ * @returns The slot's start time in milliseconds
+ * @throws InvalidAppointmentSlotError if the slot has no valid time or duration, has
+ *   already started, or belongs to another team member
+ */
+function checkSlot(slot: AppointmentSlot, teamMemberId: string | undefined, now: number): number {
+	const start = Date.parse(slot.datetime);
+	if (Number.isNaN(start)) {
+		throw new InvalidAppointmentSlotError(`Slot datetime "${slot.datetime}" is not a valid ISO 8601 date-time`);
+	}
+	if (!Number.isInteger(slot.duration_minutes) || slot.duration_minutes < 15 || slot.duration_minutes > 480) {
+		throw new InvalidAppointmentSlotError(`Slot duration ${slot.duration_minutes} is not a whole number of minutes from 15 to 480`);
+	}
+	if (start <= now) {
+		throw new InvalidAppointmentSlotError(`Slot at ${slot.datetime} has already started`);
+	}
+	if (teamMemberId !== undefined && teamMemberId !== slot.team_member_id) {
+		throw new InvalidAppointmentSlotError(
+			`Slot at ${slot.datetime} is offered by team member ${slot.team_member_id}, not ${teamMemberId}`
+		);
+	}
+	return start;
+}
+
+/**
+ * Turns a checked slot into the scheduling fields of a job
+ *
+ * @param slot - The slot as returned in `data.available_slots`
+ * @param teamMemberId - Team member requested by the caller, if any
+ * @param now - Current time in milliseconds
+ * @returns Start and end time, duration and assigned team member
+ * @throws InvalidAppointmentSlotError if the slot cannot be booked (see `checkSlot`)
+ */
+function slotBooking(slot: AppointmentSlot, teamMemberId: string | undefined, now: number) {
+	const start = checkSlot(slot, teamMemberId, now);
+	return {
+		start_time: new Date(start).toISOString(),
+		end_time: new Date(start + slot.duration_minutes * 60_000).toISOString(),
+		duration_minutes: slot.duration_minutes,
+		assigned_team_member_id: slot.team_member_id,
+	};
+}
+
+/**
+ * Create job tool implementation
+ */
+export const createJobTool: ToolImplementation = {
+	name: "create_job",
+	description: "Book an appointment by creating a job for a customer in a slot found with get_available_appointments. The slot's team member is assigned to the job. Returns the created job.",
+	schema: {
+		customer_id: z.string().describe("ID of the customer the job is for (see list_customers or create_customer)"),
+		service_type: z.string().describe("Service to perform (e.g., 'cleaning')"),
+		address: z.string().describe("Full service address (street, city, state, zip); use the address the slot was found for"),
+		slot: appointmentSlotSchema.describe("The chosen slot, exactly as returned in data.available_slots by get_available_appointments"),
+		team_member_id: z.string().optional().describe("Team member to assign; defaults to the slot's team member and must match it when given"),
+		notes: z.string().optional().describe("Notes for the team member, such as gate codes or parking instructions"),
+	},
+	outputSchema: outputShape(jobSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const job = await new ZenbookerClient(apiKey, context).jobs.create({
+			customer_id: params.customer_id,
+			service_type: params.service_type,
+			address: params.address,
+			...slotBooking(params.slot, params.team_member_id, Date.now()),
+			notes: params.notes,
+		});
+		return formatToolResult(job, context);
+	}
+};
+
+/**
+ * Changes to an existing job that its status can block
+ */
+type JobAction = "start" | "complete" | "reschedule" | "cancel" | "assign" | "unassign";
+
+/**
+ * Why a job cannot be changed, by action and job status
+ *
+ * A job in a status without an entry allows the action.
+ */
+const BLOCKED_JOB_ACTIONS: Record<JobAction, Partial<Record<JobStatus, string>>> = {
+	start: {
+		pending: "it has not been confirmed yet; confirm it in Zenbooker first",
+		in_progress: "it is already in progress",
+		completed: "it has already been completed",
+		cancelled: "it has been cancelled",
+	},
+	complete: {
+		pending: "it has not been confirmed yet; confirm it in Zenbooker first",
+		completed: "it is already completed",
+		cancelled: "it has been cancelled",
+	},
+	reschedule: {
+		in_progress: "it is already in progress",
+		completed: "it has already been completed",
+		cancelled: "it has been cancelled; book a new appointment with create_job instead",
+	},
+	cancel: {
+		in_progress: "it is already in progress; the assigned team member must stop the work in Zenbooker",
+		completed: "it has already been completed; refund the customer through its invoice instead",
+		cancelled: "it is already cancelled",
+	},
+	assign: {
+		in_progress: "it is already in progress with its current team member",
+		completed: "it has already been completed",
+		cancelled: "it has been cancelled",
+	},
+	unassign: {
+		in_progress: "it is already in progress with its current team member",
+		completed: "it has already been completed",
+		cancelled: "it has been cancelled",
+	},
+};
+
+/**
+ * Raised when a job's status does not allow the requested change
+ */
+export class JobStatusTransitionError extends Error {
+	constructor(
+		public readonly jobId: string,
+		public readonly status: JobStatus,
+		public readonly action: JobAction,
+		reason: string
+	) {
+		super(`Cannot ${action} job ${jobId} with status "${status}": ${reason}`);
+		this.name = "JobStatusTransitionError";
+	}
+}
+
+/**
+ * Checks the job lifecycle before a job is changed
+ *
+ * @param jobId - ID of the job
+ * @param status - The job's current status
+ * @param action - Change about to be made
+ * @throws JobStatusTransitionError if the job's status does not allow the change
+ */
+function checkJobAction(jobId: string, status: JobStatus, action: JobAction): void {
+	const reason = BLOCKED_JOB_ACTIONS[action][status];
+	if (reason) {
+		throw new JobStatusTransitionError(jobId, status, action, reason);
+	}
+}
+
+/**
+ * Schema of the optional reason given for a reschedule or cancellation
+ */
+const reasonSchema = z.string().max(500).optional();
+
+/**
+ * Schema of the flag that decides whether Zenbooker tells the customer
+ */
+const notifyCustomerSchema = z.boolean().default(true);
+
+/**
+ * Reschedule job tool implementation
+ */
+export const rescheduleJobTool: ToolImplementation = {
+	name: "reschedule_job",
+	description: "Move a job to a new slot found with get_available_appointments. Only scheduled, pending or confirmed jobs can be rescheduled; the job's status is checked before anything is changed. The slot's team member is assigned to the job. Returns the updated job.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to reschedule"),
+		slot: appointmentSlotSchema.describe("The new slot, exactly as returned in data.available_slots by get_available_appointments"),
+		team_member_id: z.string().optional().describe("Team member to assign; defaults to the slot's team member and must match it when given"),
+		reason: reasonSchema.describe("Why the job is moved, e.g. 'Customer requested a later time' (max 500 characters)"),
+		notify_customer: notifyCustomerSchema.describe("Whether Zenbooker tells the customer about the new time (default true)"),
+	},
+	outputSchema: outputShape(jobSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const booking = slotBooking(params.slot, params.team_member_id, Date.now());
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "reschedule");
+		const rescheduled = await client.jobs.reschedule(params.id, {
+			...booking,
+			reason: params.reason,
+			notify_customer: params.notify_customer ?? true,
+		});
+		return formatToolResult(rescheduled, context);
+	}
+};
+
+/**
+ * Cancel job tool implementation
+ */
+export const cancelJobTool: ToolImplementation = {
+	name: "cancel_job",
+	description: "Cancel a job. Only scheduled, pending or confirmed jobs can be cancelled; jobs that are in progress, completed or already cancelled are refused with an explanation before anything is changed. Returns the cancelled job.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to cancel"),
+		reason: reasonSchema.describe("Why the job is cancelled, e.g. 'Customer moved away' (max 500 characters)"),
+		notify_customer: notifyCustomerSchema.describe("Whether Zenbooker tells the customer about the cancellation (default true)"),
+	},
+	outputSchema: outputShape(jobSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "cancel");
+		const cancelled = await client.jobs.cancel(params.id, {
+			reason: params.reason,
+			notify_customer: params.notify_customer ?? true,
+		});
+		return formatToolResult(cancelled, context);
+	}
+};
+
+/**
+ * A job after an assignment change, with anything the dispatcher should know
+ */
+const jobAssignmentSchema = z.object({
+	job: jobSchema,
+	warnings: z.array(z.string()),
+});
+
+/**
+ * Formats a date as the YYYY-MM-DD form the jobs list filters take
+ */
+function toDateFilter(time: number): string {
+	return new Date(time).toISOString().slice(0, 10);
+}
+
+/**
+ * Describes the team member's other jobs in the same time window as a job
+ *
+ * The member's jobs are collected up to the auto-pagination cap. Jobs past the
+ * cap are not checked, and a warning says so.
+ *
+ * @param client - Client for the session's account
+ * @param job - Job about to be assigned
+ * @param memberId - Team member it is assigned to
+ * @returns One warning per overlapping job, plus one if the schedule was only partly
+ *   checked; none if the job's time window is unknown
+ */
+async function overlapWarnings(client: ZenbookerClient, job: Job, memberId: string): Promise<string[]> {
+	const interval = jobInterval(job);
+	if (!interval) {
+		return [];
+	}
+	// Start a day early so jobs running past midnight into the window are included
+	const schedule = await collectPages(
+		{
+			assigned_team_member_id: memberId,
+			start_date: toDateFilter(interval.start - 86_400_000),
+			end_date: toDateFilter(interval.end),
+			all_pages: true,
+		},
+		(filters) => client.jobs.list(filters)
+	);
+	const warnings = findOverlappingJobs(job, memberId, schedule.results).map(
+		(other) => `Team member ${memberId} already has job ${other.id} from ${other.start_time} to ${other.end_time ?? "an unknown end time"}, which overlaps this job`
+	);
+	if (schedule.has_more) {
+		warnings.push(
+			`Only the first ${schedule.results.length} jobs around this job's time were checked for overlaps; ` +
+				`check the rest of team member ${memberId}'s schedule with list_jobs`
+		);
+	}
+	return warnings;
+}
+
+/**
+ * Assign job tool implementation
+ */
+export const assignJobTool: ToolImplementation = {
+	name: "assign_job",
+	description: "Assign a job to a team member, replacing any current assignment. The member must be active and work in a territory that covers the job address, and the job must not be in progress, completed or cancelled; otherwise the call is refused with an explanation before anything is changed. Returns the updated job and warnings, e.g. about other jobs of the member that overlap it.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to assign"),
+		team_member_id: z.string().min(1).describe("ID of the team member to assign the job to (see list_team_members)"),
+	},
+	outputSchema: outputShape(jobAssignmentSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "assign");
+		const [member, territories] = await Promise.all([
+			client.teamMembers.get(params.team_member_id),
+			collectPages({ all_pages: true }, (filters) => client.territories.list(filters)),
+		]);
+		checkAssignment(job, member, territories.results);
+
+		const warnings = await overlapWarnings(client, job, member.id);
+		if (job.assigned_team_member_id && job.assigned_team_member_id !== member.id) {
+			warnings.push(`Job was reassigned from team member ${job.assigned_team_member_id}`);
+		}
+		const updated = await client.jobs.update(params.id, { assigned_team_member_id: member.id });
+		return formatToolResult({ job: updated, warnings }, context);
+	}
+};
+
+/**
+ * Unassign job tool implementation
+ */
+export const unassignJobTool: ToolImplementation = {
+	name: "unassign_job",
+	description: "Remove the team member from a job so it can be assigned to someone else. Jobs that are in progress, completed or cancelled are refused with an explanation. Returns the updated job and warnings.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to unassign"),
+	},
+	outputSchema: outputShape(jobAssignmentSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "unassign");
+		if (!job.assigned_team_member_id) {
+			return formatToolResult({ job, warnings: ["Job has no assigned team member; nothing was changed"] }, context);
+		}
+
+		const updated = await client.jobs.update(params.id, { assigned_team_member_id: null });
+		return formatToolResult({ job: updated, warnings: [] }, context);
+	}
+};
+
+/**
+ * A job after a lifecycle change, with its status before and after the change
+ */
+const jobStatusChangeSchema = z.object({
+	job: jobSchema,
+	status_before: jobSchema.shape.status,
+	status_after: jobSchema.shape.status,
+});
+
+/**
+ * Start job tool implementation
+ */
+export const startJobTool: ToolImplementation = {
+	name: "start_job",
+	description: "Mark a job as in progress when the team member begins the work. Only scheduled or confirmed jobs can be started; other jobs are refused with an explanation before anything is changed. Returns the job with its status before and after.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to start (find it with list_jobs, e.g. by date)"),
+	},
+	outputSchema: outputShape(jobStatusChangeSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "start");
+		const started = await client.jobs.update(params.id, { status: "in_progress" });
+		return formatToolResult({ job: started, status_before: job.status, status_after: started.status }, context);
+	}
+};
+
+/**
+ * Complete job tool implementation
+ */
+export const completeJobTool: ToolImplementation = {
+	name: "complete_job",
+	description: "Mark a job as done, optionally recording how long the work actually took. Scheduled, confirmed and in-progress jobs can be completed; other jobs are refused with an explanation before anything is changed. Returns the job with its status before and after.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to complete (find it with list_jobs, e.g. by date)"),
+		actual_duration_minutes: z.number().int().min(1).max(1440).optional().describe("Minutes the work actually took (1-1440)"),
+	},
+	outputSchema: outputShape(jobStatusChangeSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		checkJobAction(params.id, job.status, "complete");
+		const completed = await client.jobs.update(params.id, {
+			status: "completed",
+			actual_duration_minutes: params.actual_duration_minutes,
+		});
+		return formatToolResult({ job: completed, status_before: job.status, status_after: completed.status }, context);
+	}
+};
+
+/**
+ * Add job note tool implementation
+ *
+ * Zenbooker has no endpoint for appending a note, so the handler reads the
+ * job's notes and writes them back with the new entry. A note saved to the
+ * same job between the read and the write is overwritten.
+ */
+export const addJobNoteTool: ToolImplementation = {
+	name: "add_job_note",
+	description: "Append a timestamped note to a job, keeping its existing notes. Works for jobs in any status. Returns the job with its (unchanged) status before and after. The notes are read and written back in full, so a note added to the same job at the same moment by someone else can be lost; add notes to one job one at a time.",
+	schema: {
+		id: z.string().min(1).describe("ID of the job to add the note to"),
+		note: z.string().min(1).max(2000).describe("Text of the note (max 2000 characters), e.g. 'Customer asked to use the side door'"),
+	},
+	outputSchema: outputShape(jobStatusChangeSchema),
+	mutating: true,
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		const job = await client.jobs.get(params.id);
+		const entry = `[${new Date().toISOString()}] ${params.note.trim()}`;
+		const updated = await client.jobs.update(params.id, {
+			notes: job.notes ? `${job.notes}\n${entry}` : entry,
+		});
+		return formatToolResult({ job: updated, status_before: job.status, status_after: updated.status }, context);
 	}
 };
 
@@ -48,4 +472,12 @@ export const getJobTool: ToolImplementation = {
 export const jobsTools = [
 	listJobsTool,
 	getJobTool,
+	startJobTool,
+	completeJobTool,
+	addJobNoteTool,
+	createJobTool,
+	rescheduleJobTool,
+	cancelJobTool,
+	assignJobTool,
+	unassignJobTool,
 ] as const;
\ No newline at end of file
@@ -0,0 +1,205 @@
+/**
+ * Output formats for tool results
+ *
+ * List tools can render their `results` rows as a Markdown table or CSV
+ * instead of JSON, for pasting into reports and spreadsheets.
+ */
+
+import { z } from "zod";
+
+/**
+ * Supported output formats
+ *
+ * - `json`: indented JSON (default)
+ * - `compact`: JSON without whitespace
+ * - `markdown`: a table with one row per result
+ * - `csv`: RFC 4180 CSV with a header row
+ */
+export const OUTPUT_FORMATS = ["json", "compact", "markdown", "csv"] as const;
+
+export type OutputFormat = (typeof OUTPUT_FORMATS)[number];
+
+/**
+ * Common parameter for list tools whose results can be rendered as a table
+ */
+export const outputFormatSchema = {
+	format: z.enum(OUTPUT_FORMATS).optional().describe("Output format: 'json' (default), 'compact' (unindented JSON), 'markdown' (table of results) or 'csv'. Use 'fields' (e.g. 'results.id,results.status') to choose the columns"),
+};
+
+/**
+ * Keys of a paginated response that describe the page rather than a row
+ */
+const PAGINATION_KEYS = ["cursor", "count", "has_more", "next_cursor", "pages_fetched"];
+
+/**
+ * Options for rendering
+ */
+export interface RenderOptions {
+	/** Requested field paths; `results.*` paths select and order the table columns */
+	fields?: string[];
+	/** Result metadata; table formats record the pagination envelope here */
+	meta?: Record<string, unknown>;
+}
+
+/**
+ * Reads a dotted path from a row
+ *
+ * @param row - Result row
+ * @param path - Dotted path such as "customer.name"
+ * @returns The value, or undefined if any segment is missing
+ */
+function getPath(row: unknown, path: string): unknown {
+	let value = row;
+	for (const segment of path.split(".")) {
+		if (value === null || typeof value !== "object") {
+			return undefined;
+		}
+		value = (value as Record<string, unknown>)[segment];
+	}
+	return value;
+}
+
+/**
+ * Determines the table columns
+ *
+ * Requested `results.*` fields are used in the order given. Otherwise every
+ * top-level key of the rows is used, in order of first appearance.
+ *
+ * @param rows - Result rows
+ * @param fields - Requested field paths
+ * @returns Column paths relative to a row
+ */
+function getColumns(rows: unknown[], fields: string[] | undefined): string[] {
+	const requested = (fields ?? [])
+		.filter((field) => field.startsWith("results."))
+		.map((field) => field.slice("results.".length));
+	if (requested.length > 0) {
+		return [...new Set(requested)];
+	}
+
+	const columns = new Set<string>();
+	for (const row of rows) {
+		if (row && typeof row === "object" && !Array.isArray(row)) {
+			for (const key of Object.keys(row)) {
+				columns.add(key);
+			}
+		}
+	}
+	return [...columns];
+}
+
+/**
+ * Converts a cell value to text; objects and arrays become compact JSON
+ *
+ * @param value - Cell value
+ * @returns Text for the cell, empty for null or missing values
+ */
+function cellText(value: unknown): string {
+	if (value === null || value === undefined) {
+		return "";
+	}
+	if (typeof value === "object") {
+		return JSON.stringify(value);
+	}
+	return String(value);
+}
+
+/**
+ * Escapes a value for a Markdown table cell
+ *
+ * @param value - Cell value
+ * @returns Text with pipes escaped and line breaks flattened
+ */
+function markdownCell(value: unknown): string {
+	return cellText(value).replace(/\|/g, "\\|").replace(/\r?\n/g, " ");
+}
+
+/**
+ * Escapes a value for a CSV field
+ *
+ * Text starting with a formula character is prefixed with an apostrophe so
+ * spreadsheets do not evaluate customer-supplied data as a formula.
+ *
+ * @param value - Cell value
+ * @returns The CSV field, quoted when needed
+ */
+function csvCell(value: unknown): string {
+	let text = cellText(value);
+	if (typeof value === "string" && /^[=+\-@\t\r]/.test(text)) {
+		text = `'${text}`;
+	}
+	return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Renders rows as a Markdown table
+ *
+ * @param rows - Result rows
+ * @param columns - Column paths
+ * @returns The table
+ */
+function renderMarkdown(rows: unknown[], columns: string[]): string {
+	if (columns.length === 0) {
+		return "_No results._";
+	}
+	const lines = [
+		`| ${columns.map(markdownCell).join(" | ")} |`,
+		`| ${columns.map(() => "---").join(" | ")} |`,
+		...rows.map((row) => `| ${columns.map((column) => markdownCell(getPath(row, column))).join(" | ")} |`),
+	];
+	return lines.join("\n");
+}
+
+/**
+ * Renders rows as CSV
+ *
+ * @param rows - Result rows
+ * @param columns - Column paths
+ * @returns CSV text with a header row and CRLF line endings
+ */
+function renderCsv(rows: unknown[], columns: string[]): string {
+	const lines = [
+		columns.map(csvCell).join(","),
+		...rows.map((row) => columns.map((column) => csvCell(getPath(row, column))).join(",")),
+	];
+	return lines.join("\r\n");
+}
+
+/**
+ * Renders tool output in the requested format
+ *
+ * Table formats need a `results` array; anything else falls back to JSON.
+ * For tables the pagination envelope is moved to `meta.pagination`, and a
+ * Markdown table ends with a note when more results are available.
+ *
+ * @param data - Response data, already projected to the requested fields
+ * @param format - Output format
+ * @param options - Requested fields and result metadata
+ * @returns The rendered text
+ */
+export function renderOutput(data: unknown, format: OutputFormat = "json", options: RenderOptions = {}): string {
+	const record = data && typeof data === "object" ? (data as Record<string, unknown>) : undefined;
+	const rows = Array.isArray(record?.results) ? (record.results as unknown[]) : undefined;
+
+	if (format === "compact") {
+		return JSON.stringify(data);
+	}
+	if (format === "json" || !record || !rows) {
+		return JSON.stringify(data, null, 2);
+	}
+
+	const pagination = Object.fromEntries(PAGINATION_KEYS.filter((key) => key in record).map((key) => [key, record[key]]));
+	if (options.meta) {
+		options.meta.pagination = pagination;
+	}
+
+	const columns = getColumns(rows, options.fields);
+	if (format === "csv") {
+		return renderCsv(rows, columns);
+	}
+
+	const table = renderMarkdown(rows, columns);
+	return record.has_more === true && record.next_cursor !== null && record.next_cursor !== undefined
+		? `${table}\n\nMore results are available; pass cursor=${record.next_cursor} to continue.`
+		: table;
+}
@@ -0,0 +1,95 @@
+/**
+ * Output schemas for MCP structured tool results
+ *
+ * Each tool's output schema is derived from the response schema in schemas.ts.
+ * Every field is optional, because `fields` projection may remove any of them.
+ * A field whose value does not match is dropped from `structuredContent` rather
+ * than failing the call. This matters in lenient validation mode, where drifted
+ * responses are still returned. The text block always carries the data as received.
+ */
+
+import { z } from "zod";
+
+/**
+ * Rebuilds a schema so its object fields are optional and drop invalid values
+ *
+ * @param schema - Schema from schemas.ts
+ * @returns The lenient equivalent
+ */
+function lenient(schema: z.ZodTypeAny): z.ZodTypeAny {
+	if (schema instanceof z.ZodOptional) {
+		return lenient(schema.unwrap());
+	}
+	if (schema instanceof z.ZodNullable) {
+		return lenient(schema.unwrap()).nullable();
+	}
+	if (schema instanceof z.ZodArray) {
+		return z.array(lenient(schema.element));
+	}
+	if (schema instanceof z.ZodObject) {
+		return z.object(outputShape(schema)).passthrough();
+	}
+	return schema;
+}
+
+/**
+ * Derives the output schema shape for a tool from its response schema
+ *
+ * @param schema - Response object schema from schemas.ts
+ * @returns Raw shape suitable for the MCP `outputSchema`
+ */
+export function outputShape(schema: z.AnyZodObject): z.ZodRawShape {
+	const shape: z.ZodRawShape = {};
+	for (const [key, field] of Object.entries(schema.shape as z.ZodRawShape)) {
+		shape[key] = lenient(field).optional().catch(undefined);
+	}
+	return shape;
+}
+
+/**
+ * Output shape for list tools, which may merge several pages
+ *
+ * @param schema - Paginated response schema from schemas.ts
+ * @returns Raw shape including the auto-pagination `pages_fetched` count
+ */
+export function paginatedOutputShape(schema: z.AnyZodObject): z.ZodRawShape {
+	return {
+		...outputShape(schema),
+		pages_fetched: z.number().optional().catch(undefined),
+	};
+}
+
+/**
+ * Output shape every tool adds to its own, for the marker of a truncated result
+ *
+ * A truncated result returns only this marker as its structured content, so a
+ * client reading structured output can tell it from a complete answer and
+ * continue with `read_result_chunk`.
+ */
+export const truncationOutputShape: z.ZodRawShape = {
+	truncated: z
+		.object({
+			handle: z.string(),
+			total_chars: z.number(),
+			next_offset: z.number(),
+		})
+		.optional(),
+};
+
+/**
+ * Brings structured content into line with a tool's output schema
+ *
+ * Unknown top-level keys are removed, since MCP clients may validate against
+ * the published schema, and invalid fields are dropped.
+ *
+ * @param shape - The tool's output schema shape
+ * @param content - Structured content produced by the handler
+ * @returns Content that satisfies the output schema
+ */
+export function conformStructuredContent(
+	shape: z.ZodRawShape,
+	content: Record<string, unknown> | undefined
+): Record<string, unknown> {
+	const parsed = z.object(shape).safeParse(content ?? {});
+	return parsed.success ? parsed.data : {};
+}
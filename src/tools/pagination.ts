@@ -0,0 +1,112 @@
+/**
+ * Automatic pagination for list tools
+ */
+
+import { z } from "zod";
+import type { PaginatedResponse, PaginationParams } from "../types.js";
+
+/**
+ * Upper bound on items collected by one auto-paginated call
+ */
+export const MAX_AUTO_PAGINATION_ITEMS = 1000;
+
+/**
+ * Items collected when `all_pages` is set without `max_items`
+ */
+export const DEFAULT_AUTO_PAGINATION_ITEMS = 500;
+
+/**
+ * Upper bound on pages fetched by one auto-paginated call, so an API that keeps
+ * reporting `has_more` cannot keep the tool busy indefinitely
+ */
+const MAX_AUTO_PAGINATION_PAGES = 50;
+
+/**
+ * Common parameters for list tools that can follow `next_cursor` themselves
+ */
+export const paginationControlSchema = {
+	all_pages: z.boolean().optional().describe("Set to true to follow next_cursor and return all pages merged into one result (up to max_items)"),
+	max_items: z.number().int().min(1).max(MAX_AUTO_PAGINATION_ITEMS).optional().describe(`Maximum number of results to collect across pages; implies all_pages (defaults to ${DEFAULT_AUTO_PAGINATION_ITEMS}, at most ${MAX_AUTO_PAGINATION_ITEMS})`),
+};
+
+/**
+ * Auto-pagination settings taken from tool input
+ */
+export interface AutoPaginationOptions {
+	all_pages?: boolean;
+	max_items?: number;
+}
+
+/**
+ * Several pages merged into one response
+ *
+ * `has_more` and `next_cursor` describe where to resume if the item cap was
+ * reached before the end of the list. When the last page had to be cut to the
+ * cap, `next_cursor` is that page's own cursor, so resuming repeats some items
+ * rather than skipping any.
+ */
+export interface MergedPaginatedResponse<T> extends PaginatedResponse<T> {
+	pages_fetched: number;
+}
+
+/**
+ * Fetches a single page, or follows `next_cursor` across pages when requested
+ *
+ * The auto-pagination settings are removed from the tool input before it is
+ * passed on as filters. Without `all_pages` or `max_items` exactly one page is
+ * fetched, as before. Otherwise pages are requested until the list ends or the
+ * item cap is reached. Each page asks only for the items still needed, so
+ * `next_cursor` of the last page is normally an exact resume point. If the API
+ * returns more items than asked for, the extra ones are dropped and the result
+ * resumes from the start of that page instead.
+ *
+ * @param params - Tool input: filters, cursor, page limit and auto-pagination settings
+ * @param fetchPage - Fetches one page for the given filters
+ * @param maxPageSize - Largest page the endpoint accepts, used when no limit is given
+ * @returns The single page, or all collected pages merged
+ */
+export async function collectPages<P extends PaginationParams & AutoPaginationOptions, T>(
+	params: P,
+	fetchPage: (filters: Omit<P, keyof AutoPaginationOptions>) => Promise<PaginatedResponse<T>>,
+	maxPageSize = 100
+): Promise<PaginatedResponse<T> | MergedPaginatedResponse<T>> {
+	const { all_pages, max_items, ...filters } = params;
+	if (!all_pages && max_items === undefined) {
+		return fetchPage(filters);
+	}
+
+	const maxItems = Math.min(max_items ?? DEFAULT_AUTO_PAGINATION_ITEMS, MAX_AUTO_PAGINATION_ITEMS);
+	const pageSize = Math.min(filters.limit ?? maxPageSize, maxPageSize);
+	const results: T[] = [];
+	let cursor = filters.cursor;
+	let firstCursor: number | undefined;
+	let page: PaginatedResponse<T>;
+	let pages = 0;
+	let sliced = false;
+
+	for (;;) {
+		const remaining = maxItems - results.length;
+		page = await fetchPage({ ...filters, cursor, limit: Math.min(pageSize, remaining) });
+		pages++;
+		firstCursor ??= page.cursor;
+		// Guard the cap even if the API returns more items than requested
+		sliced = page.results.length > remaining;
+		results.push(...page.results.slice(0, remaining));
+
+		const advanced = page.next_cursor !== null && page.next_cursor !== cursor;
+		if (!page.has_more || !advanced || results.length >= maxItems || pages >= MAX_AUTO_PAGINATION_PAGES) {
+			break;
+		}
+		cursor = page.next_cursor ?? undefined;
+	}
+
+	return {
+		cursor: firstCursor ?? 0,
+		results,
+		count: results.length,
+		has_more: sliced || page.has_more,
+		// Items dropped from a cut page come before its next_cursor, so resume from the page itself
+		next_cursor: sliced ? page.cursor : page.has_more ? page.next_cursor : null,
+		pages_fetched: pages,
+	};
+}
@@ -0,0 +1,121 @@
+/**
+ * Field projection for tool output
+ *
+ * Lets the model ask for only the fields it needs, e.g.
+ * `results.id,results.status`, so large responses do not fill its context.
+ */
+
+import { z } from "zod";
+
+/**
+ * Common parameter for read tools whose output may be pruned
+ */
+export const projectionSchema = {
+	fields: z.string().optional().describe("Comma-separated dotted paths of the fields to return (e.g. 'results.id,results.status'); arrays are traversed automatically. Omit to return everything"),
+};
+
+/**
+ * Envelope keys kept in paginated responses regardless of the requested fields,
+ * so the model can still page through results
+ */
+const PAGINATION_KEYS = ["cursor", "count", "has_more", "next_cursor", "pages_fetched"];
+
+/**
+ * Requested fields as a tree; `true` keeps the whole value at that path
+ */
+type FieldTree = Map<string, FieldTree | true>;
+
+/**
+ * Splits the `fields` parameter into individual dotted paths
+ *
+ * @param fields - Comma-separated field paths
+ * @returns Trimmed, non-empty paths
+ */
+export function parseFieldPaths(fields: string): string[] {
+	return fields
+		.split(",")
+		.map((path) => path.trim())
+		.filter(Boolean);
+}
+
+/**
+ * Builds a lookup tree from dotted paths
+ *
+ * A shorter path wins over a longer one below it: `results,results.id` keeps
+ * all of `results`.
+ *
+ * @param paths - Dotted field paths
+ * @returns The field tree
+ */
+function buildFieldTree(paths: string[]): FieldTree {
+	const root: FieldTree = new Map();
+	for (const path of paths) {
+		const segments = path.split(".").filter(Boolean);
+		let node = root;
+		segments.forEach((segment, index) => {
+			const existing = node.get(segment);
+			if (existing === true) {
+				return;
+			}
+			if (index === segments.length - 1) {
+				node.set(segment, true);
+				return;
+			}
+			const child: FieldTree = existing ?? new Map();
+			node.set(segment, child);
+			node = child;
+		});
+	}
+	return root;
+}
+
+/**
+ * Keeps only the parts of a value selected by the field tree
+ *
+ * @param value - Value to prune
+ * @param tree - Fields to keep below this value
+ * @returns The pruned value, or undefined if nothing was selected
+ */
+function prune(value: unknown, tree: FieldTree): unknown {
+	if (Array.isArray(value)) {
+		return value.map((item) => prune(item, tree)).filter((item) => item !== undefined);
+	}
+	if (value === null || typeof value !== "object") {
+		return undefined;
+	}
+
+	const source = value as Record<string, unknown>;
+	const pruned: Record<string, unknown> = {};
+	for (const [key, selection] of tree) {
+		if (!(key in source)) {
+			continue;
+		}
+		const child = selection === true ? source[key] : prune(source[key], selection);
+		if (child !== undefined) {
+			pruned[key] = child;
+		}
+	}
+	return pruned;
+}
+
+/**
+ * Prunes a response down to the requested fields
+ *
+ * Paths that do not exist in the response are ignored. For paginated responses
+ * the cursor fields are always kept.
+ *
+ * @param data - Response data
+ * @param paths - Dotted field paths to keep
+ * @returns The projected data
+ */
+export function projectFields(data: unknown, paths: string[]): unknown {
+	const tree = buildFieldTree(paths);
+	if (data && typeof data === "object" && Array.isArray((data as Record<string, unknown>).results)) {
+		for (const key of PAGINATION_KEYS) {
+			if (!tree.has(key)) {
+				tree.set(key, true);
+			}
+		}
+	}
+	return prune(data, tree) ?? {};
+}
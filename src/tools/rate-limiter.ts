@@ -0,0 +1,207 @@
+/**
+ * Client-side rate limiting for Zenbooker API requests
+ */
+
+import { ZenbookerRateLimitError, ZenbookerRequestCancelledError } from "./errors.js";
+import { sleep } from "./retry.js";
+
+/**
+ * Token bucket settings
+ */
+export interface RateLimitOptions {
+	/** Sustained number of requests allowed per second */
+	ratePerSecond: number;
+	/** Number of requests that may be sent back-to-back before throttling */
+	burst: number;
+	/** Longest a request may wait for a token before it is rejected */
+	maxQueueMs: number;
+}
+
+/**
+ * Default limits, kept below Zenbooker's upstream limits for a single key
+ */
+export const DEFAULT_RATE_LIMIT: RateLimitOptions = {
+	ratePerSecond: 5,
+	burst: 10,
+	maxQueueMs: 5_000,
+};
+
+/**
+ * Token state for one API key
+ */
+interface Bucket {
+	tokens: number;
+	updatedAt: number;
+}
+
+/**
+ * Outcome of asking a bucket for a token
+ */
+export interface Reservation {
+	/** False if the wait would exceed maxQueueMs; no token is held then */
+	granted: boolean;
+	/** How long to wait before sending the request */
+	waitMs: number;
+}
+
+/**
+ * Throttles upstream requests per API key
+ */
+export interface RateLimiter {
+	/**
+	 * Waits until a request may be sent for the given key
+	 *
+	 * @param key - Bucket key, normally a fingerprint of the API key
+	 * @param signal - Cancellation signal of the calling MCP request
+	 * @throws ZenbookerRateLimitError if the wait would exceed maxQueueMs
+	 * @throws ZenbookerRequestCancelledError if the caller cancels while queued
+	 */
+	acquire(key: string, signal?: AbortSignal): Promise<void>;
+}
+
+/**
+ * Waits out a reservation, handing its token back if the caller cancels
+ *
+ * @param reservation - Reservation returned by the bucket
+ * @param options - Settings the bucket was asked with, for the error message
+ * @param signal - Cancellation signal of the calling MCP request
+ * @param release - Returns the reserved token to the bucket
+ * @throws ZenbookerRateLimitError if the reservation was not granted
+ * @throws ZenbookerRequestCancelledError if the caller cancels while queued
+ */
+async function waitForReservation(
+	reservation: Reservation,
+	options: RateLimitOptions,
+	signal: AbortSignal | undefined,
+	release: () => unknown
+): Promise<void> {
+	if (!reservation.granted) {
+		throw new ZenbookerRateLimitError(
+			429,
+			`Client-side rate limit of ${options.ratePerSecond} requests/second reached for this Zenbooker API key`,
+			{ code: "client_rate_limited", retryAfterMs: reservation.waitMs }
+		);
+	}
+	if (reservation.waitMs === 0) {
+		return;
+	}
+
+	await sleep(reservation.waitMs, signal);
+	if (signal?.aborted) {
+		// Hand the reserved token back to the requests queued behind this one
+		await release();
+		throw new ZenbookerRequestCancelledError();
+	}
+}
+
+/**
+ * Token-bucket rate limiter with one bucket per API key
+ *
+ * Tokens are reserved up front, so queued requests are released in arrival
+ * order. A request that would have to wait longer than `maxQueueMs` is
+ * rejected with a ZenbookerRateLimitError instead of being queued.
+ *
+ * The buckets live in this object's memory. Sessions share them through
+ * `DurableObjectRateLimiter`, which keeps one such limiter per API key in a
+ * `RateLimitBucket` Durable Object.
+ */
+export class TokenBucketRateLimiter implements RateLimiter {
+	private readonly buckets = new Map<string, Bucket>();
+
+	constructor(
+		readonly options: RateLimitOptions = DEFAULT_RATE_LIMIT,
+		private readonly now: () => number = Date.now
+	) {}
+
+	async acquire(key: string, signal?: AbortSignal): Promise<void> {
+		await waitForReservation(this.reserve(key), this.options, signal, () => this.release(key));
+	}
+
+	/**
+	 * Takes a token for the given key, queueing behind earlier reservations
+	 *
+	 * @param key - Bucket key
+	 * @returns The wait before the token is usable, or a refusal if it exceeds maxQueueMs
+	 */
+	reserve(key: string): Reservation {
+		const bucket = this.refill(key);
+		bucket.tokens -= 1;
+		if (bucket.tokens >= 0) {
+			return { granted: true, waitMs: 0 };
+		}
+
+		const waitMs = Math.ceil((-bucket.tokens / this.options.ratePerSecond) * 1000);
+		if (waitMs > this.options.maxQueueMs) {
+			bucket.tokens += 1;
+			return { granted: false, waitMs };
+		}
+		return { granted: true, waitMs };
+	}
+
+	/**
+	 * Returns a reserved token that will not be used
+	 *
+	 * @param key - Bucket key
+	 */
+	release(key: string): void {
+		this.refill(key).tokens += 1;
+	}
+
+	/**
+	 * Adds the tokens earned since the last update, capped at the burst size
+	 *
+	 * @param key - Bucket key
+	 * @returns The up-to-date bucket
+	 */
+	private refill(key: string): Bucket {
+		const now = this.now();
+		let bucket = this.buckets.get(key);
+		if (!bucket) {
+			bucket = { tokens: this.options.burst, updatedAt: now };
+			this.buckets.set(key, bucket);
+			return bucket;
+		}
+
+		const earned = ((now - bucket.updatedAt) / 1000) * this.options.ratePerSecond;
+		bucket.tokens = Math.min(this.options.burst, bucket.tokens + earned);
+		bucket.updatedAt = now;
+		return bucket;
+	}
+}
+
+/**
+ * The bucket of one API key, as reached through its Durable Object stub
+ */
+export interface RateLimitBucketStub {
+	reserve(options: RateLimitOptions): Promise<Reservation>;
+	release(options: RateLimitOptions): Promise<void>;
+}
+
+/**
+ * Durable Object namespace holding one rate-limit bucket per API key
+ */
+export interface RateLimitBucketNamespace {
+	idFromName(name: string): DurableObjectId;
+	get(id: DurableObjectId): RateLimitBucketStub;
+}
+
+/**
+ * Rate limiter whose buckets are shared by every session of the deployment
+ *
+ * Each session is its own Durable Object and usually runs in its own isolate,
+ * so buckets kept in memory would throttle each session separately. Here each
+ * API-key fingerprint names one `RateLimitBucket` Durable Object, and every
+ * session using that key reserves its tokens there.
+ */
+export class DurableObjectRateLimiter implements RateLimiter {
+	constructor(
+		private readonly namespace: RateLimitBucketNamespace,
+		readonly options: RateLimitOptions = DEFAULT_RATE_LIMIT
+	) {}
+
+	async acquire(key: string, signal?: AbortSignal): Promise<void> {
+		const bucket = this.namespace.get(this.namespace.idFromName(key));
+		const reservation = await bucket.reserve(this.options);
+		await waitForReservation(reservation, this.options, signal, () => bucket.release(this.options));
+	}
+}
@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { recurringBookingsResponseSchema } from "../schemas.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List recurring bookings tool implementation
@@ -16,12 +22,14 @@ export const listRecurringBookingsTool: ToolImplementation = {
 		limit: z.number().min(1).max(40).optional().describe("Maximum number of recurring bookings to return (1-40, lower limit due to data complexity)"),
 		customer_id: z.string().optional().describe("Filter recurring bookings by specific customer ID"),
 		active: z.boolean().optional().describe("Filter recurring bookings by active status (true for active, false for inactive)"),
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/recurring${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(recurringBookingsResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.recurringBookings.list(filters), 40), context);
 	}
 };
 
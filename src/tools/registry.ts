@@ -3,24 +3,45 @@
  */
 
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { allTools, type ToolImplementation } from "./index.js";
-
-/**
- * Environment interface for accessing API key
- */
-interface ZenbookerEnvironment {
-	ZENBOOKER_API_KEY?: string;
-}
+import { ZenbookerConfigError } from "../config.js";
+import {
+	accountOverrideSchema,
+	allTools,
+	conformStructuredContent,
+	formatToolError,
+	parseFieldPaths,
+	type ToolContext,
+	type ToolImplementation,
+	type ToolResult,
+	toolsByCategory,
+	truncationOutputShape,
+	UnknownAccountError,
+} from "./index.js";
 
 /**
  * Interface for API key provider
  */
 interface ApiKeyProvider {
 	getEnvironmentApiKey(): string | undefined;
+	/** Supplies per-invocation settings such as the API base URL */
+	getToolContext?(): ToolContext;
 }
 
 /**
  * Registers a single tool with the MCP server
+ *
+ * Errors thrown by the handler are converted into `isError` tool results so the
+ * model receives a readable explanation instead of a transport-level failure.
+ * The MCP request's cancellation signal and the tool's timeout are forwarded
+ * to the handler through its context. The common `fresh`, `fields` and `format`
+ * parameters are moved into the context, and metadata gathered during the call
+ * is added to `_meta`. Every tool that calls Zenbooker also takes an `account`
+ * parameter; the call then uses that named account's API key, or else the
+ * session's active account, or else the provider's API key. Tools that declare
+ * an output schema publish it, extended with the marker of a truncated result,
+ * and their `structuredContent` is brought into line with it before it is returned.
+ * The provider's logger is bound to the tool name and the MCP request ID for
+ * the call, and failed calls are logged.
  * 
  * @param server - The MCP server instance
  * @param tool - The tool implementation to register
@@ -31,13 +52,58 @@ export function registerTool(
 	tool: ToolImplementation,
 	apiKeyProvider: ApiKeyProvider
 ): void {
-	server.tool(
+	const outputSchema = tool.outputSchema && { ...tool.outputSchema, ...truncationOutputShape };
+	server.registerTool(
 		tool.name,
-		tool.description,
-		tool.schema,
-		async (params) => {
-			const apiKey = apiKeyProvider.getEnvironmentApiKey();
-			return await tool.handler(params, apiKey);
+		{
+			description: tool.description,
+			inputSchema: tool.local ? tool.schema : { ...tool.schema, ...accountOverrideSchema },
+			outputSchema,
+			annotations: { readOnlyHint: !tool.mutating },
+		},
+		async ({ fresh, fields, format, account, ...params }, extra) => {
+			const providerContext = apiKeyProvider.getToolContext?.() ?? {};
+			const meta: Record<string, unknown> = {};
+			const logger = providerContext.logger?.child({ tool: tool.name, rpcRequestId: String(extra.requestId) });
+			const startedAt = Date.now();
+			const context: ToolContext = {
+				...providerContext,
+				logger,
+				signal: extra.signal,
+				timeoutMs: tool.timeoutMs ?? providerContext.timeoutMs,
+				fresh: fresh === true,
+				fields: typeof fields === "string" ? parseFieldPaths(fields) : undefined,
+				format,
+				meta,
+			};
+
+			let result: ToolResult;
+			try {
+				const accountName = typeof account === "string" ? account : context.accounts?.active;
+				let apiKey: string | undefined;
+				if (accountName !== undefined) {
+					if (!context.accounts) {
+						throw new UnknownAccountError(accountName, []);
+					}
+					apiKey = context.accounts.apiKeyFor(accountName);
+					meta.account = accountName;
+				} else {
+					apiKey = apiKeyProvider.getEnvironmentApiKey();
+				}
+				result = await tool.handler(params, apiKey, context);
+			} catch (error) {
+				logger?.warn("Tool call failed", { error });
+				result = formatToolError(error);
+			}
+			logger?.debug("Tool call finished", { durationMs: Date.now() - startedAt, isError: result.isError === true });
+
+			if (outputSchema && !result.isError) {
+				result.structuredContent = conformStructuredContent(outputSchema, result.structuredContent);
+			}
+			if (Object.keys(meta).length > 0) {
+				result._meta = { ...result._meta, ...meta };
+			}
+			return result;
 		}
 	);
 }
@@ -57,19 +123,78 @@ export function registerAllTools(
 	}
 }
 
+/**
+ * Categories registered whatever the selection, because other tools' results refer to them
+ */
+const ALWAYS_ENABLED_CATEGORIES = ["results"];
+
+/**
+ * Tools to leave out of a category selection
+ */
+export interface ToolFilterOptions {
+	/** Names of tools to leave out */
+	disabledTools?: string[];
+	/** Leave out every tool marked `mutating` */
+	readOnly?: boolean;
+	/** Names of the only tools to keep, e.g. those a session's OAuth scopes allow; undefined keeps all */
+	allowedTools?: string[];
+}
+
+/**
+ * Picks the tools of the given categories, minus the disabled ones
+ *
+ * @param categories - Names of categories in `toolsByCategory`
+ * @param options - Tools to leave out
+ * @returns The selected tools, in catalog order
+ * @throws ZenbookerConfigError if a category or tool name is unknown
+ */
+export function selectTools(
+	categories: string[],
+	{ disabledTools = [], readOnly = false, allowedTools }: ToolFilterOptions = {}
+): ToolImplementation[] {
+	const knownCategories = Object.keys(toolsByCategory);
+	const unknownCategory = categories.find((category) => !knownCategories.includes(category));
+	if (unknownCategory !== undefined) {
+		throw new ZenbookerConfigError(
+			`Unknown tool category "${unknownCategory}". Expected one of: ${knownCategories.join(", ")}`
+		);
+	}
+	const unknownTool = disabledTools.find((name) => !allTools.some((tool) => tool.name === name));
+	if (unknownTool !== undefined) {
+		throw new ZenbookerConfigError(`Unknown tool "${unknownTool}" cannot be disabled`);
+	}
+
+	const enabled = new Set([...categories, ...ALWAYS_ENABLED_CATEGORIES]);
+	return Object.entries(toolsByCategory)
+		.filter(([category]) => enabled.has(category))
+		.flatMap(([, tools]): ToolImplementation[] => [...tools])
+		.filter((tool) => !disabledTools.includes(tool.name))
+		.filter((tool) => !(readOnly && tool.mutating))
+		.filter((tool) => !allowedTools || allowedTools.includes(tool.name));
+}
+
 /**
  * Registers tools by category with the MCP server
  * 
+ * The `results` category is always registered, since truncated results point
+ * to `read_result_chunk`; list it in `disabledTools` to leave it out. In
+ * read-only mode, tools that create or change data are never registered, so
+ * clients cannot see or call them. `allowedTools` narrows the selection further
+ * for one session.
+ * 
  * @param server - The MCP server instance
  * @param categories - Array of category names to register
  * @param apiKeyProvider - Provider for API key access
+ * @param options - Tools to skip even when their category is registered
+ * @throws ZenbookerConfigError if a category or tool name is unknown
  */
 export function registerToolsByCategory(
 	server: McpServer,
 	categories: string[],
-	apiKeyProvider: ApiKeyProvider
+	apiKeyProvider: ApiKeyProvider,
+	options: ToolFilterOptions = {}
 ): void {
-	// This would need to be implemented based on the toolsByCategory structure
-	// For now, we'll register all tools
-	registerAllTools(server, apiKeyProvider);
-}
\ No newline at end of file
+	for (const tool of selectTools(categories, options)) {
+		registerTool(server, tool, apiKeyProvider);
+	}
+}
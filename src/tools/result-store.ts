@@ -0,0 +1,92 @@
+/**
+ * Short-lived storage for oversized tool results
+ *
+ * When a result is larger than the configured maximum, the full text is kept
+ * in the Durable Object's SQLite storage under a random handle, and the model
+ * reads the rest with the `read_result_chunk` tool.
+ */
+
+import type { SqlExecutor } from "./cache.js";
+
+/**
+ * How long a stored result can be read back
+ */
+export const RESULT_HANDLE_TTL_MS = 15 * 60_000;
+
+/**
+ * Largest result text returned in one piece, in characters, when none is configured
+ */
+export const DEFAULT_MAX_RESPONSE_CHARS = 50_000;
+
+/**
+ * Tells the model how to continue reading a truncated result
+ *
+ * @param handle - Handle of the stored result
+ * @param nextOffset - Character offset to continue from
+ * @param totalChars - Length of the whole result
+ * @returns The note appended to the truncated text
+ */
+export function continuationNote(handle: string, nextOffset: number, totalChars: number): string {
+	return `[Truncated: ${nextOffset} of ${totalChars} characters shown. Call read_result_chunk with handle "${handle}" and offset ${nextOffset} to read the rest. The handle expires ${RESULT_HANDLE_TTL_MS / 60_000} minutes after the original call.]`;
+}
+
+/**
+ * A slice of a stored result
+ */
+export interface ResultChunk {
+	text: string;
+	/** Length of the whole stored result in characters */
+	totalChars: number;
+	/** Epoch milliseconds after which the handle is no longer readable */
+	expiresAt: number;
+}
+
+/**
+ * Storage backend for oversized results
+ */
+export interface ResultStore {
+	/** Stores the text and returns a handle for reading it back */
+	save(text: string, ttlMs?: number): string;
+	/** Reads part of a stored result, or undefined if the handle is unknown or expired */
+	read(handle: string, offset: number, length: number): ResultChunk | undefined;
+}
+
+/**
+ * Result store kept in Durable Object SQLite
+ */
+export class SqlResultStore implements ResultStore {
+	constructor(
+		private readonly sql: SqlExecutor,
+		private readonly now: () => number = Date.now,
+		private readonly createHandle: () => string = () => crypto.randomUUID()
+	) {
+		this.sql`CREATE TABLE IF NOT EXISTS result_handles (
+			handle TEXT PRIMARY KEY,
+			text TEXT NOT NULL,
+			expires_at INTEGER NOT NULL
+		)`;
+	}
+
+	save(text: string, ttlMs: number = RESULT_HANDLE_TTL_MS): string {
+		const now = this.now();
+		const handle = this.createHandle();
+		// Opportunistically drop expired results so the table stays small
+		this.sql`DELETE FROM result_handles WHERE expires_at <= ${now}`;
+		this.sql`
+			INSERT INTO result_handles (handle, text, expires_at)
+			VALUES (${handle}, ${text}, ${now + ttlMs})
+		`;
+		return handle;
+	}
+
+	read(handle: string, offset: number, length: number): ResultChunk | undefined {
+		// Sliced here rather than with SQL substr(), so offsets match JavaScript string indexes
+		const [row] = this.sql<{ text: string; expires_at: number }>`
+			SELECT text, expires_at FROM result_handles WHERE handle = ${handle} AND expires_at > ${this.now()}
+		`;
+		if (!row) {
+			return undefined;
+		}
+		return { text: row.text.slice(offset, offset + length), totalChars: row.text.length, expiresAt: row.expires_at };
+	}
+}
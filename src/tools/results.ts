@@ -0,0 +1,64 @@
+/**
+ * Tools for reading back oversized results
+ */
+
+import { z } from "zod";
+import type { ToolImplementation } from "./base.js";
+import { continuationNote, DEFAULT_MAX_RESPONSE_CHARS } from "./result-store.js";
+
+/**
+ * Read result chunk tool implementation
+ */
+export const readResultChunkTool: ToolImplementation = {
+	name: "read_result_chunk",
+	description: "Read the next part of a tool result that was too large to return at once. Use the handle and offset given in the truncation note at the end of the earlier result.",
+	schema: {
+		handle: z.string().describe("Handle from the truncation note of an earlier result"),
+		offset: z.number().int().min(0).optional().describe("Character offset to start reading from (defaults to 0)"),
+		length: z.number().int().min(1).optional().describe("Number of characters to read (defaults to and is capped at the server's maximum response size)"),
+	},
+	outputSchema: {
+		handle: z.string(),
+		offset: z.number(),
+		next_offset: z.number().nullable(),
+		total_chars: z.number(),
+		expires_at: z.string(),
+	},
+	local: true,
+	handler: async (params, _apiKey, context) => {
+		const store = context?.resultStore;
+		if (!store) {
+			throw new Error("Stored results are not available in this session");
+		}
+
+		const maxChars = context.maxResponseChars ?? DEFAULT_MAX_RESPONSE_CHARS;
+		const offset = params.offset ?? 0;
+		const chunk = store.read(params.handle, offset, Math.min(params.length ?? maxChars, maxChars));
+		if (!chunk) {
+			throw new Error(`Result handle "${params.handle}" is unknown or has expired. Run the original tool call again.`);
+		}
+
+		const end = offset + chunk.text.length;
+		const nextOffset = end < chunk.totalChars ? end : null;
+		return {
+			content: [{
+				type: "text",
+				text: nextOffset === null ? chunk.text : `${chunk.text}\n\n${continuationNote(params.handle, nextOffset, chunk.totalChars)}`,
+			}],
+			structuredContent: {
+				handle: params.handle,
+				offset,
+				next_offset: nextOffset,
+				total_chars: chunk.totalChars,
+				expires_at: new Date(chunk.expiresAt).toISOString(),
+			},
+		};
+	}
+};
+
+/**
+ * All result tools exported as an array
+ */
+export const resultTools = [
+	readResultChunkTool,
+] as const;
@@ -0,0 +1,119 @@
+/**
+ * Retry policy for Zenbooker API requests
+ */
+
+/**
+ * Configuration for retrying failed Zenbooker API requests
+ */
+export interface RetryPolicy {
+	/** Maximum number of attempts, including the first one */
+	maxAttempts: number;
+	/** Base delay for exponential backoff in milliseconds */
+	baseDelayMs: number;
+	/** Upper bound for a single backoff delay in milliseconds */
+	maxDelayMs: number;
+	/** Upper bound for the total time spent on one request, including waits */
+	maxTotalTimeMs: number;
+	/** HTTP status codes that are considered transient */
+	retryableStatuses: readonly number[];
+}
+
+/**
+ * Default retry policy used by makeZenbookerRequest
+ */
+export const DEFAULT_RETRY_POLICY: RetryPolicy = {
+	maxAttempts: 3,
+	baseDelayMs: 250,
+	maxDelayMs: 5_000,
+	maxTotalTimeMs: 15_000,
+	retryableStatuses: [408, 429, 500, 502, 503, 504],
+};
+
+/**
+ * HTTP methods that can be safely repeated without side effects
+ */
+const IDEMPOTENT_METHODS = new Set(["GET", "HEAD", "OPTIONS", "PUT", "DELETE"]);
+
+/**
+ * Determines whether a request may be retried at all
+ *
+ * Non-idempotent methods (POST, PATCH) are only retried when the caller
+ * supplies an idempotency key, so the upstream can deduplicate them.
+ *
+ * @param method - HTTP method of the request
+ * @param idempotencyKey - Optional idempotency key sent with the request
+ * @returns True if the request is safe to retry
+ */
+export function isRetryableMethod(method: string, idempotencyKey?: string): boolean {
+	return IDEMPOTENT_METHODS.has(method.toUpperCase()) || Boolean(idempotencyKey);
+}
+
+/**
+ * Parses a Retry-After header value into milliseconds
+ *
+ * @param value - Header value, either delta-seconds or an HTTP date
+ * @param now - Current time in milliseconds since epoch
+ * @returns Delay in milliseconds, or undefined if the header is missing or invalid
+ */
+export function parseRetryAfter(value: string | null | undefined, now: number = Date.now()): number | undefined {
+	if (!value) {
+		return undefined;
+	}
+
+	const trimmed = value.trim();
+	if (/^\d+(\.\d+)?$/.test(trimmed)) {
+		return Math.round(Number(trimmed) * 1000);
+	}
+
+	const date = Date.parse(trimmed);
+	if (Number.isNaN(date)) {
+		return undefined;
+	}
+	return Math.max(0, date - now);
+}
+
+/**
+ * Computes the delay before the next attempt using exponential backoff with full jitter
+ *
+ * @param attempt - The attempt that just failed (1-based)
+ * @param policy - Retry policy in effect
+ * @param retryAfterMs - Delay requested by the server via Retry-After, if any
+ * @param random - Random source in [0, 1), injectable for tests
+ * @returns Delay in milliseconds
+ */
+export function computeRetryDelay(
+	attempt: number,
+	policy: RetryPolicy,
+	retryAfterMs?: number,
+	random: () => number = Math.random
+): number {
+	if (retryAfterMs !== undefined) {
+		return retryAfterMs;
+	}
+	const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** (attempt - 1));
+	return Math.floor(random() * ceiling);
+}
+
+/**
+ * Waits for the given number of milliseconds
+ *
+ * Resolves early if the signal is aborted; callers check the signal afterwards.
+ *
+ * @param ms - Delay in milliseconds
+ * @param signal - Optional signal that cuts the wait short
+ */
+export function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+	return new Promise((resolve) => {
+		if (signal?.aborted) {
+			resolve();
+			return;
+		}
+		const done = () => {
+			clearTimeout(timer);
+			signal?.removeEventListener("abort", done);
+			resolve();
+		};
+		const timer = setTimeout(done, ms);
+		signal?.addEventListener("abort", done);
+	});
+}
@@ -3,7 +3,11 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { availableAppointmentsResponseSchema, schedulingResponseSchema } from "../schemas.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputShape } from "./output-schema.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * Check territory coverage tool implementation
@@ -13,12 +17,11 @@ export const checkTerritoryCoverageTool: ToolImplementation = {
 	description: "Check if a given address is within one of the serviced territories. Returns territory information, service coverage status, and estimated travel times.",
 	schema: {
 		address: z.string().describe("The full address to check for territory coverage (street, city, state, zip)"),
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/territories/check-coverage?${queryParams.toString()}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(schedulingResponseSchema),
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).territories.checkCoverage(params), context);
 	}
 };
 
@@ -27,24 +30,25 @@ export const checkTerritoryCoverageTool: ToolImplementation = {
  */
 export const getAvailableAppointmentsTool: ToolImplementation = {
 	name: "get_available_appointments",
-	description: "Determine the next available appointment times for a given address based on territory coverage and team member availability. Returns up to 10 appointment slots with team member details.",
+	description: "Determine the next available appointment times for a given address based on territory coverage and team member availability. Returns up to 10 appointment slots with team member details in data.available_slots. Pass the chosen slot unchanged to create_job to book it.",
 	schema: {
 		address: z.string().describe("The full address where service is requested (street, city, state, zip)"),
 		service_duration: z.number().min(15).max(480).describe("Expected service duration in minutes (15-480 minutes)"),
 		limit: z.number().min(1).max(10).optional().describe("Maximum number of appointment slots to return (1-10, defaults to 10)"),
 		start_date: z.string().optional().describe("Earliest date to search for appointments (ISO 8601 format: YYYY-MM-DD, defaults to today)"),
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
+	outputSchema: outputShape(availableAppointmentsResponseSchema),
+	// Availability search spans territories and team schedules, so allow it more time
+	timeoutMs: 25_000,
+	handler: async (params, apiKey, context) => {
 		// Set default limit if not provided
 		const paramsWithDefaults = {
 			...params,
 			limit: params.limit || 10
 		};
-		
-		const queryParams = buildQueryParams(paramsWithDefaults);
-		const endpoint = `/scheduling/available-appointments?${queryParams.toString()}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+
+		return formatToolResult(await new ZenbookerClient(apiKey, context).scheduling.availableAppointments(paramsWithDefaults), context);
 	}
 };
 
@@ -57,12 +61,11 @@ export const checkAdjacentTerritoresTool: ToolImplementation = {
 	schema: {
 		address: z.string().describe("The full address to check for adjacent territories (street, city, state, zip)"),
 		max_distance: z.number().min(1).max(50).optional().describe("Maximum distance in miles to search for adjacent territories (1-50 miles, defaults to 10)"),
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/territories/check-adjacent?${queryParams.toString()}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: outputShape(schedulingResponseSchema),
+	handler: async (params, apiKey, context) => {
+		return formatToolResult(await new ZenbookerClient(apiKey, context).territories.checkAdjacent(params), context);
 	}
 };
 
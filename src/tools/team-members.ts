@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { teamMembersResponseSchema } from "../schemas.js";
+import { formatToolResult, cacheControlSchema, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List team members tool implementation
@@ -15,12 +21,15 @@ export const listTeamMembersTool: ToolImplementation = {
 		cursor: z.number().optional().describe("Pagination cursor for retrieving the next set of results"),
 		limit: z.number().min(1).max(100).optional().describe("Maximum number of team members to return (1-100, defaults to API default)"),
 		active: z.boolean().optional().describe("Filter team members by active status (true for active, false for inactive)"),
+		...cacheControlSchema,
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/team_members${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(teamMembersResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.teamMembers.list(filters)), context);
 	}
 };
 
@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { territoriesResponseSchema } from "../schemas.js";
+import { formatToolResult, cacheControlSchema, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List territories tool implementation
@@ -14,12 +20,15 @@ export const listTerritoriesTools: ToolImplementation = {
 	schema: {
 		cursor: z.number().optional().describe("Pagination cursor for retrieving the next set of results"),
 		limit: z.number().min(1).max(100).optional().describe("Maximum number of territories to return (1-100, defaults to API default)"),
+		...cacheControlSchema,
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/territories${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(territoriesResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.territories.list(filters)), context);
 	}
 };
 
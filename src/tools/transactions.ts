@@ -3,7 +3,13 @@
  */
 
 import { z } from "zod";
-import { makeZenbookerRequest, formatToolResult, buildQueryParams, type ToolImplementation } from "./base.js";
+import { transactionsResponseSchema } from "../schemas.js";
+import { formatToolResult, type ToolImplementation } from "./base.js";
+import { ZenbookerClient } from "./client.js";
+import { outputFormatSchema } from "./output-format.js";
+import { paginatedOutputShape } from "./output-schema.js";
+import { collectPages, paginationControlSchema } from "./pagination.js";
+import { projectionSchema } from "./projection.js";
 
 /**
  * List transactions tool implementation
@@ -18,12 +24,14 @@ export const listTransactionsTool: ToolImplementation = {
 		invoice_id: z.string().optional().describe("Filter transactions by specific invoice ID"),
 		start_date: z.string().optional().describe("Filter transactions created on or after this date (ISO 8601 format: YYYY-MM-DD)"),
 		end_date: z.string().optional().describe("Filter transactions created on or before this date (ISO 8601 format: YYYY-MM-DD)"),
+		...paginationControlSchema,
+		...outputFormatSchema,
+		...projectionSchema,
 	},
-	handler: async (params, apiKey) => {
-		const queryParams = buildQueryParams(params);
-		const endpoint = `/transactions${queryParams.toString() ? `?${queryParams.toString()}` : ""}`;
-		const result = await makeZenbookerRequest(endpoint, "GET", undefined, apiKey);
-		return formatToolResult(result);
+	outputSchema: paginatedOutputShape(transactionsResponseSchema),
+	handler: async (params, apiKey, context) => {
+		const client = new ZenbookerClient(apiKey, context);
+		return formatToolResult(await collectPages(params, (filters) => client.transactions.list(filters)), context);
 	}
 };
 
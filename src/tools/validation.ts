@@ -0,0 +1,86 @@
+/**
+ * Runtime validation of Zenbooker API responses against the schemas in schemas.ts
+ */
+
+import type { z } from "zod";
+import { rootLogger } from "../logger.js";
+import type { ApiResponse } from "../types.js";
+import type { ToolContext } from "./base.js";
+import { type ResponseIssue, ZenbookerResponseValidationError } from "./errors.js";
+
+/**
+ * How responses that do not match their schema are handled
+ *
+ * - `off`: responses are not checked
+ * - `lenient`: mismatches are logged and reported in `_meta.validation`, the data is returned as-is
+ * - `strict`: mismatches fail the tool call with a ZenbookerResponseValidationError
+ */
+export const RESPONSE_VALIDATION_MODES = ["off", "lenient", "strict"] as const;
+
+export type ResponseValidationMode = (typeof RESPONSE_VALIDATION_MODES)[number];
+
+/**
+ * Mode used when none is configured
+ */
+export const DEFAULT_RESPONSE_VALIDATION_MODE: ResponseValidationMode = "lenient";
+
+/**
+ * Most issues reported per response, so one bad field in a large page stays readable
+ */
+const MAX_REPORTED_ISSUES = 10;
+
+/**
+ * Converts zod issues into the flat form used in logs and error results
+ *
+ * @param error - The zod validation error
+ * @returns Up to MAX_REPORTED_ISSUES issues with dotted paths
+ */
+function toResponseIssues(error: z.ZodError): ResponseIssue[] {
+	return error.issues.slice(0, MAX_REPORTED_ISSUES).map((issue) => ({
+		path: issue.path.join("."),
+		message: issue.message,
+	}));
+}
+
+/**
+ * Checks a Zenbooker response against its schema according to the configured mode
+ *
+ * The original data is always returned unchanged, so unknown fields and
+ * lenient-mode mismatches still reach the model.
+ *
+ * @param schema - Schema the response is expected to match
+ * @param data - Parsed response body
+ * @param endpoint - Endpoint the response came from, used in logs and errors
+ * @param context - Tool context holding the validation mode and result metadata
+ * @returns The response data
+ * @throws ZenbookerResponseValidationError in strict mode when the response does not match
+ */
+export function validateResponse(
+	schema: z.ZodTypeAny,
+	data: ApiResponse,
+	endpoint: string,
+	context?: ToolContext
+): ApiResponse {
+	const mode = context?.responseValidation ?? DEFAULT_RESPONSE_VALIDATION_MODE;
+	if (mode === "off") {
+		return data;
+	}
+
+	const parsed = schema.safeParse(data);
+	if (parsed.success) {
+		return data;
+	}
+
+	// Query strings may carry customer details; report the path only
+	const path = endpoint.split("?")[0];
+	const issues = toResponseIssues(parsed.error);
+	if (mode === "strict") {
+		throw new ZenbookerResponseValidationError(path, issues);
+	}
+
+	(context?.logger ?? rootLogger).warn("Zenbooker response drift", { path, issues });
+	if (context?.meta) {
+		context.meta.validation = { status: "drift", issues };
+	}
+	return data;
+}
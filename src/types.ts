@@ -2,9 +2,26 @@
  * Type definitions for Zenbooker API responses
  * 
  * These types provide better type safety and documentation for the API responses
- * used throughout the MCP server implementation.
+ * used throughout the MCP server implementation. Response entity types are
+ * inferred from the runtime schemas in schemas.ts so the two cannot drift apart.
  */
 
+import type { z } from "zod";
+import type {
+	appointmentSlotSchema,
+	availableAppointmentsResponseSchema,
+	couponSchema,
+	customerSchema,
+	invoiceLineItemSchema,
+	invoiceSchema,
+	jobSchema,
+	recurringBookingSchema,
+	schedulingResponseSchema,
+	teamMemberSchema,
+	territorySchema,
+	transactionSchema,
+} from "./schemas.js";
+
 // Generic API response interface
 export interface ApiResponse {
 	[key: string]: unknown;
@@ -20,149 +37,51 @@ export interface PaginatedResponse<T> {
 }
 
 // Customer related types
-export interface Customer {
-	id: string;
-	first_name: string;
-	last_name: string;
-	email?: string;
-	phone?: string;
-	address?: string;
-	city?: string;
-	state?: string;
-	zip?: string;
-	notes?: string;
-	created_at: string;
-	updated_at: string;
-}
+export type Customer = z.infer<typeof customerSchema>;
 
 export type CustomersResponse = PaginatedResponse<Customer>;
 
 // Job related types
-export interface Job {
-	id: string;
-	customer_id: string;
-	status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
-	scheduled_at: string;
-	duration_minutes?: number;
-	description?: string;
-	service_type?: string;
-	assigned_team_member_id?: string;
-	address?: string;
-	notes?: string;
-	created_at: string;
-	updated_at: string;
-}
+export type Job = z.infer<typeof jobSchema>;
+
+export type JobStatus = Job["status"];
 
 export type JobsResponse = PaginatedResponse<Job>;
 
 // Invoice related types
-export interface Invoice {
-	id: string;
-	customer_id: string;
-	job_id?: string;
-	status: 'draft' | 'sent' | 'paid' | 'overdue' | 'cancelled';
-	amount: number;
-	currency: string;
-	due_date?: string;
-	description?: string;
-	line_items?: InvoiceLineItem[];
-	created_at: string;
-	updated_at: string;
-}
+export type Invoice = z.infer<typeof invoiceSchema>;
 
-export interface InvoiceLineItem {
-	id: string;
-	description: string;
-	quantity: number;
-	unit_price: number;
-	total: number;
-}
+export type InvoiceLineItem = z.infer<typeof invoiceLineItemSchema>;
 
 export type InvoicesResponse = PaginatedResponse<Invoice>;
 
 // Transaction related types
-export interface Transaction {
-	id: string;
-	customer_id: string;
-	invoice_id?: string;
-	amount: number;
-	currency: string;
-	type: 'payment' | 'refund' | 'adjustment';
-	status: 'pending' | 'completed' | 'failed' | 'cancelled';
-	payment_method?: string;
-	reference?: string;
-	created_at: string;
-	updated_at: string;
-}
+export type Transaction = z.infer<typeof transactionSchema>;
 
 export type TransactionsResponse = PaginatedResponse<Transaction>;
 
 // Team member related types
-export interface TeamMember {
-	id: string;
-	first_name: string;
-	last_name: string;
-	email: string;
-	phone?: string;
-	role: string;
-	active: boolean;
-	skills?: string[];
-	territories?: string[];
-	created_at: string;
-	updated_at: string;
-}
+export type TeamMember = z.infer<typeof teamMemberSchema>;
 
 export type TeamMembersResponse = PaginatedResponse<TeamMember>;
 
 // Recurring booking related types
-export interface RecurringBooking {
-	id: string;
-	customer_id: string;
-	service_type: string;
-	frequency: 'weekly' | 'biweekly' | 'monthly' | 'quarterly';
-	day_of_week?: number;
-	time: string;
-	duration_minutes: number;
-	active: boolean;
-	next_scheduled_date?: string;
-	created_at: string;
-	updated_at: string;
-}
+export type RecurringBooking = z.infer<typeof recurringBookingSchema>;
 
 export type RecurringBookingsResponse = PaginatedResponse<RecurringBooking>;
 
 // Territory related types
-export interface Territory {
-	id: string;
-	name: string;
-	description?: string;
-	zip_codes?: string[];
-	cities?: string[];
-	states?: string[];
-	active: boolean;
-	created_at: string;
-	updated_at: string;
-}
+export type Territory = z.infer<typeof territorySchema>;
 
 export type TerritoriesResponse = PaginatedResponse<Territory>;
 
 // Coupon related types
-export interface Coupon {
-	id: string;
-	code: string;
-	name: string;
-	description?: string;
-	discount_type: 'percentage' | 'fixed_amount';
-	discount_value: number;
-	valid_from?: string;
-	valid_until?: string;
-	max_uses?: number;
-	uses_count: number;
-	min_order_value?: number;
-	active: boolean;
-	created_at: string;
-	updated_at: string;
-}
+export type Coupon = z.infer<typeof couponSchema>;
+
+// Scheduling related types
+export type SchedulingResponse = z.infer<typeof schedulingResponseSchema>;
+export type AppointmentSlot = z.infer<typeof appointmentSlotSchema>;
+export type AvailableAppointmentsResponse = z.infer<typeof availableAppointmentsResponseSchema>;
 
 // Error response types
 export interface ApiError {
@@ -185,6 +104,38 @@ export interface CreateCustomerRequest {
 	notes?: string;
 }
 
+export interface CreateJobRequest {
+	customer_id: string;
+	service_type: string;
+	address: string;
+	start_time: string;
+	end_time: string;
+	duration_minutes: number;
+	assigned_team_member_id: string;
+	notes?: string;
+}
+
+export interface RescheduleJobRequest {
+	start_time: string;
+	end_time: string;
+	duration_minutes: number;
+	assigned_team_member_id: string;
+	reason?: string;
+	notify_customer: boolean;
+}
+
+export interface UpdateJobRequest {
+	status?: JobStatus;
+	assigned_team_member_id?: string | null;
+	actual_duration_minutes?: number;
+	notes?: string;
+}
+
+export interface CancelJobRequest {
+	reason?: string;
+	notify_customer: boolean;
+}
+
 export interface UpdateCustomerRequest {
 	first_name?: string;
 	last_name?: string;
@@ -217,6 +168,7 @@ export interface PaginationParams {
 
 export interface JobFilters extends PaginationParams {
 	customer_id?: string;
+	assigned_team_member_id?: string;
 	status?: string;
 	start_date?: string;
 	end_date?: string;
@@ -253,4 +205,30 @@ export interface RecurringBookingFilters extends PaginationParams {
 
 export interface TerritoryFilters extends PaginationParams {
 	// No additional filters for territories currently
-}
\ No newline at end of file
+}
+
+export interface TerritoryCoverageParams {
+	address: string;
+}
+
+export interface AdjacentTerritoriesParams {
+	address: string;
+	max_distance?: number;
+}
+
+export interface AvailableAppointmentsParams {
+	address: string;
+	service_duration: number;
+	limit?: number;
+	start_date?: string;
+}
+
+/**
+ * User who signed in through OAuth and authorized the MCP client
+ */
+export interface AuthenticatedUser {
+	/** GitHub login, also used as the OAuth grant's user ID */
+	login: string;
+	name?: string;
+	email?: string;
+}
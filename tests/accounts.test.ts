@@ -0,0 +1,160 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mockApiResponses } from './mocks';
+import {
+	AccountDirectory,
+	type AccountSelectionStore,
+	UnknownAccountError,
+} from '../src/tools/account-directory.js';
+import { listAccountsTool, useAccountTool } from '../src/tools/accounts.js';
+import type { ToolImplementation } from '../src/tools/base.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { registerOnFakeServer } from './fake-server';
+import { readResultChunkTool } from '../src/tools/results.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * In-memory stand-in for the Durable Object SQLite selection store
+ */
+class MemorySelectionStore implements AccountSelectionStore {
+	name?: string;
+
+	get() {
+		return this.name;
+	}
+
+	set(name: string) {
+		this.name = name;
+	}
+}
+
+const franchiseAccounts = { downtown: 'key-downtown', uptown: 'key-uptown', airport: 'key-airport' };
+
+/**
+ * Registers a tool against a fake server and returns its caller and input schema
+ */
+function register(tool: ToolImplementation, accounts?: AccountDirectory) {
+	const registered = registerOnFakeServer(tool, {
+		getEnvironmentApiKey: () => 'session-key',
+		getToolContext: () => ({ accounts }),
+	});
+	return { call: registered.call, inputSchema: registered.config.inputSchema };
+}
+
+/**
+ * API keys sent to Zenbooker, in call order
+ */
+function sentApiKeys(): string[] {
+	return (fetch as any).mock.calls.map(([, init]: [string, RequestInit]) =>
+		(init.headers as Record<string, string>).Authorization.replace('Bearer ', '')
+	);
+}
+
+describe('Named accounts', () => {
+	let accounts: AccountDirectory;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		(fetch as any).mockImplementation(() =>
+			Promise.resolve({ ok: true, json: () => Promise.resolve(mockApiResponses.jobs) })
+		);
+		accounts = new AccountDirectory(franchiseAccounts, new MemorySelectionStore());
+	});
+
+	describe('AccountDirectory', () => {
+		it('should list accounts and remember the active one', () => {
+			expect(accounts.names()).toEqual(['downtown', 'uptown', 'airport']);
+			expect(accounts.active).toBeUndefined();
+
+			accounts.use('uptown');
+
+			expect(accounts.active).toBe('uptown');
+			expect(accounts.apiKeyFor('airport')).toBe('key-airport');
+		});
+
+		it('should reject unknown accounts and list the available ones', () => {
+			expect(() => accounts.use('midtown')).toThrow(UnknownAccountError);
+			expect(() => accounts.apiKeyFor('constructor')).toThrow('Available accounts: downtown, uptown, airport');
+			expect(accounts.active).toBeUndefined();
+		});
+
+		it('should ignore a stored active account that is no longer configured', () => {
+			const store = new MemorySelectionStore();
+			store.set('closed-location');
+
+			expect(new AccountDirectory(franchiseAccounts, store).active).toBeUndefined();
+		});
+	});
+
+	describe('account tools', () => {
+		it('should switch the session to another account', async () => {
+			const result = await register(useAccountTool, accounts).call({ name: 'airport' });
+
+			expect(result.isError).toBeFalsy();
+			expect(result.structuredContent.active).toBe('airport');
+			expect(accounts.active).toBe('airport');
+		});
+
+		it('should list the accounts with the active one marked', async () => {
+			accounts.use('downtown');
+
+			const result = await register(listAccountsTool, accounts).call();
+
+			expect(result.structuredContent).toEqual({
+				accounts: [
+					{ name: 'downtown', active: true },
+					{ name: 'uptown', active: false },
+					{ name: 'airport', active: false },
+				],
+				active: 'downtown',
+			});
+		});
+
+		it('should report an unknown account as a tool error', async () => {
+			const result = await register(useAccountTool, accounts).call({ name: 'midtown' });
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('Unknown Zenbooker account "midtown"');
+		});
+	});
+
+	describe('tool calls', () => {
+		it('should add the account parameter only to tools that call Zenbooker', () => {
+			expect(register(listJobsTool, accounts).inputSchema).toHaveProperty('account');
+			expect(register(useAccountTool, accounts).inputSchema).not.toHaveProperty('account');
+			expect(register(readResultChunkTool, accounts).inputSchema).not.toHaveProperty('account');
+		});
+
+		it('should use the session key until an account is chosen, then the active account', async () => {
+			const listJobs = register(listJobsTool, accounts);
+
+			await listJobs.call();
+			accounts.use('uptown');
+			const result = await listJobs.call();
+
+			expect(sentApiKeys()).toEqual(['session-key', 'key-uptown']);
+			expect(result._meta.account).toBe('uptown');
+		});
+
+		it('should let a single call override the active account', async () => {
+			accounts.use('uptown');
+			const listJobs = register(listJobsTool, accounts);
+
+			const results = await Promise.all(['downtown', 'uptown', 'airport'].map((account) => listJobs.call({ account })));
+
+			expect(sentApiKeys().sort()).toEqual(['key-airport', 'key-downtown', 'key-uptown']);
+			expect(results.map((result) => result._meta.account)).toEqual(['downtown', 'uptown', 'airport']);
+			expect(accounts.active).toBe('uptown');
+			expect((fetch as any).mock.calls[0][0]).not.toContain('account');
+		});
+
+		it('should fail a call that names an unknown account without calling Zenbooker', async () => {
+			const result = await register(listJobsTool).call({ account: 'downtown' });
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('No named accounts are configured');
+			expect(fetch).not.toHaveBeenCalled();
+		});
+	});
+});
@@ -0,0 +1,94 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { renderConsentPage } from '../src/auth/consent-page.js';
+import {
+	buildGitHubAuthorizeUrl,
+	fetchGitHubUser,
+	GitHubSignInError,
+	isAllowedGitHubUser,
+} from '../src/auth/github.js';
+import { resolveOAuthConfig, ZenbookerConfigError } from '../src/config.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const config = resolveOAuthConfig({
+	GITHUB_CLIENT_ID: 'gh-client',
+	GITHUB_CLIENT_SECRET: 'gh-secret',
+	OAUTH_ALLOWED_GITHUB_USERS: 'Dispatcher, bookkeeper',
+});
+
+function jsonResponse(data: unknown, status = 200) {
+	return { ok: status < 400, status, json: () => Promise.resolve(data) };
+}
+
+describe('OAuth sign-in', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe('resolveOAuthConfig', () => {
+		it('should normalize the allowlist', () => {
+			expect(config.allowedGitHubUsers).toEqual(['dispatcher', 'bookkeeper']);
+		});
+
+		it('should require the GitHub app credentials and at least one allowed user', () => {
+			expect(() => resolveOAuthConfig({})).toThrow('GITHUB_CLIENT_ID');
+			expect(() => resolveOAuthConfig({ GITHUB_CLIENT_ID: 'a', GITHUB_CLIENT_SECRET: 'b', OAUTH_ALLOWED_GITHUB_USERS: ' , ' }))
+				.toThrow(ZenbookerConfigError);
+		});
+	});
+
+	describe('GitHub', () => {
+		it('should send the browser to GitHub with the callback and state', () => {
+			const url = new URL(buildGitHubAuthorizeUrl(config, 'https://mcp.example.com/callback', 'state-123'));
+
+			expect(url.origin + url.pathname).toBe('https://github.com/login/oauth/authorize');
+			expect(url.searchParams.get('client_id')).toBe('gh-client');
+			expect(url.searchParams.get('redirect_uri')).toBe('https://mcp.example.com/callback');
+			expect(url.searchParams.get('state')).toBe('state-123');
+		});
+
+		it('should exchange the code and read the user', async () => {
+			(fetch as any)
+				.mockResolvedValueOnce(jsonResponse({ access_token: 'gh-token' }))
+				.mockResolvedValueOnce(jsonResponse({ login: 'Dispatcher', name: 'Dana', email: null }));
+
+			const user = await fetchGitHubUser(config, 'code-1', 'https://mcp.example.com/callback');
+
+			expect(user).toEqual({ login: 'Dispatcher', name: 'Dana', email: undefined });
+			expect(String((fetch as any).mock.calls[0][1].body)).toContain('code=code-1');
+			expect((fetch as any).mock.calls[1][1].headers.Authorization).toBe('Bearer gh-token');
+			expect(isAllowedGitHubUser(config, user)).toBe(true);
+			expect(isAllowedGitHubUser(config, { login: 'stranger' })).toBe(false);
+		});
+
+		it('should report a rejected code', async () => {
+			(fetch as any).mockResolvedValueOnce(jsonResponse({ error: 'bad_verification_code', error_description: 'The code is incorrect' }));
+
+			const error = await fetchGitHubUser(config, 'stale', 'https://mcp.example.com/callback').catch((e) => e);
+
+			expect(error).toBeInstanceOf(GitHubSignInError);
+			expect(error.message).toContain('The code is incorrect');
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+	});
+
+	describe('consent page', () => {
+		it('should escape client-supplied values and warn about loopback redirects', () => {
+			const html = renderConsentPage({
+				clientId: 'client-1',
+				clientName: '<script>alert(1)</script>',
+				redirectUri: 'http://localhost:3000/cb',
+				redirectHost: 'localhost',
+				redirectIsLoopback: true,
+				scope: [],
+			}, 'handle"1');
+
+			expect(html).not.toContain('<script>');
+			expect(html).toContain('&lt;script&gt;alert(1)&lt;/script&gt;');
+			expect(html).toContain('value="handle&quot;1"');
+			expect(html).toContain('<strong>localhost</strong>');
+			expect(html).toContain('Warning:');
+		});
+	});
+});
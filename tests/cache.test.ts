@@ -0,0 +1,187 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { makeZenbookerRequest, type ToolImplementation } from '../src/tools/base.js';
+import {
+	buildCacheKey,
+	getCacheTtl,
+	getInvalidationPrefix,
+	type ResponseCache,
+} from '../src/tools/cache.js';
+import { getCustomerTool } from '../src/tools/customers.js';
+import { registerOnFakeServer } from './fake-server';
+import type { ApiResponse } from '../src/types.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * In-memory stand-in for the Durable Object SQLite cache
+ */
+class MemoryCache implements ResponseCache {
+	entries = new Map<string, { endpoint: string; value: ApiResponse }>();
+
+	get(key: string) {
+		return this.entries.get(key)?.value;
+	}
+
+	set(key: string, endpoint: string, value: ApiResponse) {
+		this.entries.set(key, { endpoint, value });
+	}
+
+	invalidate(pathPrefix: string) {
+		for (const [key, { endpoint }] of this.entries) {
+			if (endpoint === pathPrefix || endpoint.startsWith(`${pathPrefix}/`) || endpoint.startsWith(`${pathPrefix}?`)) {
+				this.entries.delete(key);
+			}
+		}
+	}
+}
+
+function okResponse(data: unknown) {
+	return { ok: true, json: () => Promise.resolve(data) };
+}
+
+describe('Response cache', () => {
+	let cache: MemoryCache;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		cache = new MemoryCache();
+	});
+
+	describe('cache policy', () => {
+		it('should only cache the configured endpoints', () => {
+			expect(getCacheTtl('/territories')).toBe(600_000);
+			expect(getCacheTtl('/territories?limit=10')).toBe(600_000);
+			expect(getCacheTtl('/team_members?active=true')).toBe(300_000);
+			expect(getCacheTtl('/customers/cust_456')).toBe(60_000);
+			expect(getCacheTtl('/customers')).toBeUndefined();
+			expect(getCacheTtl('/territories/check-coverage?address=x')).toBeUndefined();
+			expect(getCacheTtl('/jobs')).toBeUndefined();
+		});
+
+		it('should invalidate the whole resource for a mutation', () => {
+			expect(getInvalidationPrefix('/customers')).toBe('/customers');
+			expect(getInvalidationPrefix('/customers/cust_456')).toBe('/customers');
+			expect(getInvalidationPrefix('/coupons')).toBe('/coupons');
+		});
+
+		it('should never embed the raw API key in cache keys', () => {
+			const key = buildCacheKey('https://api.zenbooker.com/v1', TEST_API_KEY, '/territories');
+
+			expect(key).not.toContain(TEST_API_KEY);
+			expect(key).not.toBe(buildCacheKey('https://api.zenbooker.com/v1', 'other-key', '/territories'));
+		});
+	});
+
+	describe('read-through behaviour', () => {
+		it('should serve repeated GETs from the cache and report hit/miss', async () => {
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.territories));
+			const firstMeta: Record<string, unknown> = {};
+			const secondMeta: Record<string, unknown> = {};
+
+			const first = await makeZenbookerRequest('/territories', 'GET', undefined, TEST_API_KEY, { cache, meta: firstMeta });
+			const second = await makeZenbookerRequest('/territories', 'GET', undefined, TEST_API_KEY, { cache, meta: secondMeta });
+
+			expect(second).toEqual(first);
+			expect(fetch).toHaveBeenCalledTimes(1);
+			expect(firstMeta.cache).toEqual({ status: 'miss', ttl_ms: 600_000 });
+			expect(secondMeta.cache).toEqual({ status: 'hit', ttl_ms: 600_000 });
+		});
+
+		it('should bypass and refresh the cache when fresh is requested', async () => {
+			(fetch as any)
+				.mockResolvedValueOnce(okResponse({ ...mockApiResponses.customer, first_name: 'John' }))
+				.mockResolvedValueOnce(okResponse({ ...mockApiResponses.customer, first_name: 'Johnny' }));
+			const meta: Record<string, unknown> = {};
+
+			await makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache });
+			const live = await makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache, fresh: true, meta });
+			const cached = await makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache });
+
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(meta.cache).toEqual({ status: 'bypass', ttl_ms: 60_000 });
+			expect(live.first_name).toBe('Johnny');
+			expect(cached.first_name).toBe('Johnny');
+		});
+
+		it('should not cache endpoints without a TTL', async () => {
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.jobs));
+			const meta: Record<string, unknown> = {};
+
+			await makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { cache, meta });
+			await makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { cache });
+
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(meta.cache).toBeUndefined();
+		});
+
+		it('should not cache failed responses', async () => {
+			(fetch as any)
+				.mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve('{"error": "Customer not found"}') })
+				.mockResolvedValueOnce(okResponse(mockApiResponses.customer));
+
+			await expect(
+				makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache })
+			).rejects.toThrow('Customer not found');
+			await makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache });
+
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+	});
+
+	describe('invalidation', () => {
+		it.each([
+			['create_customer', 'POST', '/customers'],
+			['update_customer', 'PATCH', '/customers/cust_456'],
+		])('should drop cached customers after %s', async (_tool, method, endpoint) => {
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.customer));
+
+			await makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { cache });
+			expect(cache.entries.size).toBe(1);
+
+			await makeZenbookerRequest(endpoint, method, { first_name: 'Jane' }, TEST_API_KEY, { cache });
+
+			expect(cache.entries.size).toBe(0);
+		});
+
+		it('should leave unrelated resources cached after create_coupon', async () => {
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.territories));
+			await makeZenbookerRequest('/territories', 'GET', undefined, TEST_API_KEY, { cache });
+
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.createdCoupon));
+			await makeZenbookerRequest('/coupons', 'POST', { code: 'SAVE20' }, TEST_API_KEY, { cache });
+
+			expect(cache.entries.size).toBe(1);
+		});
+	});
+
+	describe('registerTool integration', () => {
+		function register(tool: ToolImplementation) {
+			return registerOnFakeServer(tool, {
+				getEnvironmentApiKey: () => TEST_API_KEY,
+				getToolContext: () => ({ cache }),
+			}).call;
+		}
+
+		it('should expose fresh on cacheable tools', () => {
+			expect(getCustomerTool.schema.fresh).toBeDefined();
+		});
+
+		it('should report the cache status in _meta and strip fresh from the request', async () => {
+			(fetch as any).mockResolvedValue(okResponse(mockApiResponses.customer));
+			const call = register(getCustomerTool);
+
+			const miss = await call({ id: 'cust_456' });
+			const hit = await call({ id: 'cust_456' });
+			const bypass = await call({ id: 'cust_456', fresh: true });
+
+			expect(miss._meta.cache.status).toBe('miss');
+			expect(hit._meta.cache.status).toBe('hit');
+			expect(bypass._meta.cache.status).toBe('bypass');
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(fetch).toHaveBeenLastCalledWith('https://api.zenbooker.com/v1/customers/cust_456', expect.any(Object));
+		});
+	});
+});
@@ -0,0 +1,124 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { ZenbookerClient, encodePathSegment } from '../src/tools/client.js';
+import { ZenbookerResponseValidationError } from '../src/tools/errors.js';
+import { cancelJobTool, getJobTool } from '../src/tools/jobs.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Makes the next fetch call succeed with the given body
+ */
+function respondWith(data: unknown) {
+	(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(data) });
+}
+
+describe('ZenbookerClient', () => {
+	let client: ZenbookerClient;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		client = new ZenbookerClient(TEST_API_KEY);
+	});
+
+	describe('path encoding', () => {
+		it('should encode IDs so they stay within a single path segment', () => {
+			expect(encodePathSegment('job_123')).toBe('job_123');
+			expect(encodePathSegment('../invoices')).toBe('..%2Finvoices');
+			expect(encodePathSegment('123?status=paid#x')).toBe('123%3Fstatus%3Dpaid%23x');
+		});
+
+		it('should refuse empty and dot-segment IDs', () => {
+			expect(() => encodePathSegment('..')).toThrow('Invalid resource ID ".."');
+			expect(() => encodePathSegment('.')).toThrow('Invalid resource ID "."');
+			expect(() => encodePathSegment('')).toThrow('Invalid resource ID ""');
+			expect(encodePathSegment('...')).toBe('...');
+		});
+
+		it('should not request another endpoint for a dot-segment job ID', async () => {
+			await expect(getJobTool.handler({ id: '..' }, TEST_API_KEY)).rejects.toThrow('Invalid resource ID');
+			await expect(cancelJobTool.handler({ id: '..' }, TEST_API_KEY)).rejects.toThrow('Invalid resource ID');
+			expect(fetch).not.toHaveBeenCalled();
+		});
+
+		it('should require a non-empty ID in the tool schemas', () => {
+			expect(getJobTool.schema.id.safeParse('').success).toBe(false);
+			expect(cancelJobTool.schema.id.safeParse('').success).toBe(false);
+		});
+
+		it('should not let get_job input escape the job path', async () => {
+			respondWith(mockApiResponses.job);
+
+			await getJobTool.handler({ id: '../customers?limit=100' }, TEST_API_KEY);
+
+			expect(fetch).toHaveBeenCalledWith(
+				'https://api.zenbooker.com/v1/jobs/..%2Fcustomers%3Flimit%3D100',
+				expect.anything()
+			);
+		});
+	});
+
+	describe('resource methods', () => {
+		it('should build list queries from the filter types', async () => {
+			respondWith(mockApiResponses.jobs);
+
+			const jobs = await client.jobs.list({ customer_id: 'cust_456', status: 'scheduled', limit: 5 });
+
+			expect(fetch).toHaveBeenCalledWith(
+				'https://api.zenbooker.com/v1/jobs?customer_id=cust_456&status=scheduled&limit=5',
+				expect.objectContaining({ method: 'GET' })
+			);
+			expect(jobs.results[0].start_time).toBe('2025-08-17T10:00:00.000Z');
+		});
+
+		it('should omit the query string when no filters are set', async () => {
+			respondWith(mockApiResponses.teamMembers);
+
+			await client.teamMembers.list();
+
+			expect(fetch).toHaveBeenCalledWith('https://api.zenbooker.com/v1/team_members', expect.anything());
+		});
+
+		it('should send typed request bodies for mutations', async () => {
+			respondWith(mockApiResponses.customer);
+
+			const customer = await client.customers.update('cust 456', { phone: '+15550001111' });
+
+			expect(fetch).toHaveBeenCalledWith(
+				'https://api.zenbooker.com/v1/customers/cust%20456',
+				expect.objectContaining({ method: 'PATCH', body: JSON.stringify({ phone: '+15550001111' }) })
+			);
+			expect(customer.id).toBe('cust_456');
+		});
+
+		it('should use the base URL from the context', async () => {
+			respondWith(mockApiResponses.invoice);
+			const staging = new ZenbookerClient(TEST_API_KEY, { baseUrl: 'https://api.staging.zenbooker.com/v1' });
+
+			await staging.invoices.get('inv_123');
+
+			expect(fetch).toHaveBeenCalledWith('https://api.staging.zenbooker.com/v1/invoices/inv_123', expect.anything());
+		});
+	});
+
+	describe('response validation', () => {
+		it('should validate responses with the validation mode from the context', async () => {
+			respondWith({ ...mockApiResponses.customer, first_name: undefined });
+			const strict = new ZenbookerClient(TEST_API_KEY, { responseValidation: 'strict' });
+
+			await expect(strict.customers.get('cust_456')).rejects.toBeInstanceOf(ZenbookerResponseValidationError);
+		});
+
+		it('should check scheduling responses against the envelope schema', async () => {
+			respondWith({ success: true, data: { covered: true } });
+			const strict = new ZenbookerClient(TEST_API_KEY, { responseValidation: 'strict' });
+
+			await expect(strict.territories.checkCoverage({ address: '1 Main St' })).resolves.toEqual({
+				success: true,
+				data: { covered: true },
+			});
+		});
+	});
+});
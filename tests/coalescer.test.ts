@@ -0,0 +1,131 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { makeZenbookerRequest } from '../src/tools/base.js';
+import { RequestCoalescer } from '../src/tools/coalescer.js';
+import { ZenbookerRequestCancelledError } from '../src/tools/errors.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Creates a fetch mock whose response is released manually
+ */
+function deferredFetch() {
+	let release!: (data: unknown) => void;
+	let signal: AbortSignal | undefined;
+	const pending = new Promise((resolve) => {
+		release = (data) => resolve({ ok: true, json: () => Promise.resolve(data) });
+	});
+	(fetch as any).mockImplementation((_url: string, init: RequestInit) => {
+		signal = init.signal ?? undefined;
+		return pending;
+	});
+	return { release, getSignal: () => signal };
+}
+
+describe('Request coalescing', () => {
+	let coalescer: RequestCoalescer;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		coalescer = new RequestCoalescer();
+	});
+
+	it('should share one upstream call between concurrent identical GETs', async () => {
+		const { release } = deferredFetch();
+		const metas = [{}, {}, {}] as Record<string, unknown>[];
+
+		const calls = metas.map((meta) =>
+			makeZenbookerRequest('/customers/cust_456', 'GET', undefined, TEST_API_KEY, { coalescer, meta })
+		);
+		expect(coalescer.inFlightCount).toBe(1);
+		release(mockApiResponses.customer);
+		const results = await Promise.all(calls);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(results).toEqual([mockApiResponses.customer, mockApiResponses.customer, mockApiResponses.customer]);
+		expect(coalescer.coalescedCount).toBe(2);
+		expect(coalescer.inFlightCount).toBe(0);
+		expect(metas[0].coalesced).toBeUndefined();
+		expect(metas[2].coalesced).toEqual({ total: 2 });
+	});
+
+	it('should not share requests across API keys or different endpoints', async () => {
+		const { release } = deferredFetch();
+
+		const calls = [
+			makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer }),
+			makeZenbookerRequest('/jobs', 'GET', undefined, 'other-tenant-key', { coalescer }),
+			makeZenbookerRequest('/jobs?status=pending', 'GET', undefined, TEST_API_KEY, { coalescer }),
+		];
+		release(mockApiResponses.jobs);
+		await Promise.all(calls);
+
+		expect(fetch).toHaveBeenCalledTimes(3);
+		expect(coalescer.coalescedCount).toBe(0);
+	});
+
+	it('should start a new upstream call once the previous one settled', async () => {
+		(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(mockApiResponses.jobs) });
+
+		await makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer });
+		await makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer });
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should never coalesce mutations', async () => {
+		(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(mockApiResponses.createdCustomer) });
+		const body = { first_name: 'Jane', last_name: 'Smith' };
+
+		await Promise.all([
+			makeZenbookerRequest('/customers', 'POST', body, TEST_API_KEY, { coalescer }),
+			makeZenbookerRequest('/customers', 'POST', body, TEST_API_KEY, { coalescer }),
+		]);
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+
+	it('should deliver an upstream failure to every waiter', async () => {
+		(fetch as any).mockResolvedValue({ ok: false, status: 404, text: () => Promise.resolve('{"error": "Job not found"}') });
+
+		const results = await Promise.allSettled([
+			makeZenbookerRequest('/jobs/missing', 'GET', undefined, TEST_API_KEY, { coalescer }),
+			makeZenbookerRequest('/jobs/missing', 'GET', undefined, TEST_API_KEY, { coalescer }),
+		]);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(results.map((r) => r.status)).toEqual(['rejected', 'rejected']);
+	});
+
+	it('should keep the upstream call alive while another waiter still needs it', async () => {
+		const { release, getSignal } = deferredFetch();
+		const cancelled = new AbortController();
+
+		const first = makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer, signal: cancelled.signal });
+		const second = makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer });
+		cancelled.abort();
+
+		await expect(first).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		expect(getSignal()?.aborted).toBe(false);
+
+		release(mockApiResponses.jobs);
+		await expect(second).resolves.toEqual(mockApiResponses.jobs);
+	});
+
+	it('should abort the upstream call once every waiter cancelled', async () => {
+		const { getSignal } = deferredFetch();
+		const a = new AbortController();
+		const b = new AbortController();
+
+		const first = makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer, signal: a.signal });
+		const second = makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { coalescer, signal: b.signal });
+		a.abort();
+		b.abort();
+
+		await expect(first).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		await expect(second).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		expect(getSignal()?.aborted).toBe(true);
+	});
+});
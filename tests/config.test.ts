@@ -0,0 +1,120 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import {
+	DEFAULT_ZENBOOKER_API_BASE,
+	resolveZenbookerConfig,
+	ZENBOOKER_API_PROFILES,
+	ZenbookerConfigError,
+} from '../src/config.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { registerOnFakeServer } from './fake-server';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Zenbooker configuration', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe('resolveZenbookerConfig', () => {
+		it('should default to the production profile', () => {
+			expect(resolveZenbookerConfig({})).toMatchObject({
+				profile: 'production',
+				apiBase: DEFAULT_ZENBOOKER_API_BASE,
+			});
+		});
+
+		it('should resolve named profiles', () => {
+			expect(resolveZenbookerConfig({ ZENBOOKER_API_PROFILE: 'staging' }).apiBase).toBe(ZENBOOKER_API_PROFILES.staging);
+			expect(resolveZenbookerConfig({ ZENBOOKER_API_PROFILE: 'local' }).apiBase).toBe(ZENBOOKER_API_PROFILES.local);
+		});
+
+		it('should prefer an explicit base URL and strip trailing slashes', () => {
+			expect(resolveZenbookerConfig({
+				ZENBOOKER_API_PROFILE: 'staging',
+				ZENBOOKER_API_BASE: 'https://zenbooker-mock.example.com/v1/',
+			})).toMatchObject({
+				profile: 'custom',
+				apiBase: 'https://zenbooker-mock.example.com/v1',
+			});
+		});
+
+		it('should allow plain http only for localhost', () => {
+			expect(resolveZenbookerConfig({ ZENBOOKER_API_BASE: 'http://127.0.0.1:9000/v1' }).apiBase).toBe('http://127.0.0.1:9000/v1');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_API_BASE: 'http://zenbooker.example.com/v1' })).toThrow(ZenbookerConfigError);
+		});
+
+		it('should reject unknown profiles and malformed URLs', () => {
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_API_PROFILE: 'qa' })).toThrow('Unknown ZENBOOKER_API_PROFILE "qa"');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_API_PROFILE: 'toString' })).toThrow(ZenbookerConfigError);
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_API_BASE: 'not a url' })).toThrow('not a valid URL');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_API_BASE: 'https://api.example.com/v1?x=1' })).toThrow(ZenbookerConfigError);
+		});
+
+		it('should parse and validate the request timeout', () => {
+			expect(resolveZenbookerConfig({ ZENBOOKER_REQUEST_TIMEOUT_MS: '5000' }).requestTimeoutMs).toBe(5000);
+			expect(resolveZenbookerConfig({}).requestTimeoutMs).toBeUndefined();
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_REQUEST_TIMEOUT_MS: '-1' })).toThrow('ZENBOOKER_REQUEST_TIMEOUT_MS');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_REQUEST_TIMEOUT_MS: 'soon' })).toThrow(ZenbookerConfigError);
+		});
+
+		it('should resolve the response validation mode', () => {
+			expect(resolveZenbookerConfig({}).responseValidation).toBe('lenient');
+			expect(resolveZenbookerConfig({ ZENBOOKER_RESPONSE_VALIDATION: 'Strict' }).responseValidation).toBe('strict');
+			expect(resolveZenbookerConfig({ ZENBOOKER_RESPONSE_VALIDATION: 'off' }).responseValidation).toBe('off');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_RESPONSE_VALIDATION: 'loud' })).toThrow(ZenbookerConfigError);
+		});
+
+		it('should resolve rate limit settings with defaults', () => {
+			expect(resolveZenbookerConfig({}).rateLimit).toEqual({ ratePerSecond: 5, burst: 10, maxQueueMs: 5_000 });
+			expect(resolveZenbookerConfig({
+				ZENBOOKER_RATE_LIMIT_PER_SECOND: '0.5',
+				ZENBOOKER_RATE_LIMIT_BURST: '2',
+				ZENBOOKER_RATE_LIMIT_MAX_QUEUE_MS: '8000',
+			}).rateLimit).toEqual({ ratePerSecond: 0.5, burst: 2, maxQueueMs: 8_000 });
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_RATE_LIMIT_BURST: '1.5' })).toThrow('ZENBOOKER_RATE_LIMIT_BURST');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_RATE_LIMIT_PER_SECOND: '0' })).toThrow(ZenbookerConfigError);
+		});
+
+		it('should parse the named accounts', () => {
+			expect(resolveZenbookerConfig({}).accounts).toEqual({});
+			expect(resolveZenbookerConfig({
+				ZENBOOKER_ACCOUNTS: '{"downtown": " key-1 ", "uptown": "key-2"}',
+			}).accounts).toEqual({ downtown: 'key-1', uptown: 'key-2' });
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_ACCOUNTS: 'downtown=key-1' })).toThrow('ZENBOOKER_ACCOUNTS');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_ACCOUNTS: '["key-1"]' })).toThrow(ZenbookerConfigError);
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_ACCOUNTS: '{"down town": "key-1"}' })).toThrow('Invalid account name');
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_ACCOUNTS: '{"downtown": 42}' })).toThrow('non-empty API key');
+		});
+
+		it('should resolve the maximum response size', () => {
+			expect(resolveZenbookerConfig({}).maxResponseChars).toBe(50_000);
+			expect(resolveZenbookerConfig({ ZENBOOKER_MAX_RESPONSE_CHARS: '2000' }).maxResponseChars).toBe(2000);
+			expect(() => resolveZenbookerConfig({ ZENBOOKER_MAX_RESPONSE_CHARS: 'big' })).toThrow('ZENBOOKER_MAX_RESPONSE_CHARS');
+		});
+	});
+
+	describe('base URL propagation', () => {
+		const mockResponse = { cursor: 0, results: [], count: 0, has_more: false, next_cursor: null };
+
+		it('should send tool requests to the base URL from the context', async () => {
+			(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(mockResponse) });
+
+			await listJobsTool.handler({ limit: 5 }, TEST_API_KEY, { baseUrl: 'http://localhost:8788/v1' });
+
+			expect(fetch).toHaveBeenCalledWith('http://localhost:8788/v1/jobs?limit=5', expect.any(Object));
+		});
+
+		it('should pass the provider tool context through registerTool', async () => {
+			(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve(mockResponse) });
+			const listJobs = registerOnFakeServer(listJobsTool, {
+				getEnvironmentApiKey: () => TEST_API_KEY,
+				getToolContext: () => ({ baseUrl: 'https://api.staging.zenbooker.com/v1' }),
+			});
+			await listJobs.call();
+
+			expect(fetch).toHaveBeenCalledWith('https://api.staging.zenbooker.com/v1/jobs', expect.any(Object));
+		});
+	});
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { createJobTool, InvalidAppointmentSlotError } from '../src/tools/jobs.js';
+import { registerOnFakeServer } from './fake-server';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const slot = {
+	datetime: '2099-03-14T15:00:00.000Z',
+	duration_minutes: 90,
+	team_member_id: 'tm-7',
+	team_member_name: 'Ana Lopez',
+};
+
+const booking = {
+	customer_id: 'cust-1',
+	service_type: 'cleaning',
+	address: '123 Main St, Springfield, IL 62701',
+	slot,
+};
+
+/**
+ * Body sent to Zenbooker by the first fetch call
+ */
+function sentBody() {
+	const [, init] = (fetch as any).mock.calls[0];
+	return JSON.parse(init.body);
+}
+
+describe('create_job tool', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		(fetch as any).mockResolvedValue({
+			ok: true,
+			json: () => Promise.resolve({ id: 'job-9', customer_id: 'cust-1', status: 'scheduled', start_time: slot.datetime }),
+		});
+	});
+
+	it('should book the slot with its team member and end time', async () => {
+		const result = await createJobTool.handler({ ...booking, notes: 'Gate code 4411' }, TEST_API_KEY);
+
+		const [url, init] = (fetch as any).mock.calls[0];
+		expect(url).toContain('/jobs');
+		expect(init.method).toBe('POST');
+		expect(sentBody()).toEqual({
+			customer_id: 'cust-1',
+			service_type: 'cleaning',
+			address: '123 Main St, Springfield, IL 62701',
+			start_time: '2099-03-14T15:00:00.000Z',
+			end_time: '2099-03-14T16:30:00.000Z',
+			duration_minutes: 90,
+			assigned_team_member_id: 'tm-7',
+			notes: 'Gate code 4411',
+		});
+		expect(result.content[0].text).toContain('job-9');
+	});
+
+	it('should accept the team member the slot belongs to', async () => {
+		await createJobTool.handler({ ...booking, team_member_id: 'tm-7' }, TEST_API_KEY);
+
+		expect(sentBody().assigned_team_member_id).toBe('tm-7');
+	});
+
+	it('should reject slots it cannot book without calling Zenbooker', async () => {
+		await expect(createJobTool.handler({ ...booking, slot: { ...slot, datetime: '2001-01-01T09:00:00Z' } }, TEST_API_KEY))
+			.rejects.toThrow('has already started');
+		await expect(createJobTool.handler({ ...booking, slot: { ...slot, datetime: 'next tuesday' } }, TEST_API_KEY))
+			.rejects.toThrow('not a valid ISO 8601 date-time');
+		await expect(createJobTool.handler({ ...booking, slot: { ...slot, duration_minutes: 0 } }, TEST_API_KEY))
+			.rejects.toThrow(InvalidAppointmentSlotError);
+		await expect(createJobTool.handler({ ...booking, team_member_id: 'tm-2' }, TEST_API_KEY))
+			.rejects.toThrow('offered by team member tm-7, not tm-2');
+		expect(fetch).not.toHaveBeenCalled();
+	});
+
+	it('should report an invalid slot as a tool error', async () => {
+		const createJob = registerOnFakeServer(createJobTool, { getEnvironmentApiKey: () => TEST_API_KEY });
+
+		const result = await createJob.call({ ...booking, slot: { ...slot, datetime: '2001-01-01T09:00:00Z' } });
+
+		expect(result.isError).toBe(true);
+		expect(result.content[0].text).toContain('fresh get_available_appointments call');
+	});
+});
@@ -1,69 +1,172 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { mockApiResponses } from './mocks';
+import type { ZenbookerEnvironment } from '../src/config.js';
+import {
+  isSessionOwner,
+  readSessionApiKey,
+  resolveSessionApiKey,
+  retainSessionProps,
+  SESSION_API_KEY_HEADER,
+  sessionObjectName,
+  type SessionProps,
+} from '../src/credentials.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { type RegisteredTool, registerOnFakeServer } from './fake-server';
 
-// Simulate the global variable issue
-let globalApiKey: string | undefined;
+// Mock fetch globally
+global.fetch = vi.fn();
 
-// Mock McpAgent behavior
-class MockMcpAgent {
-  static setApiKey(key?: string) {
-    globalApiKey = key;
+/**
+ * Stand-in for a ZenbookerMCP Durable Object
+ *
+ * Mirrors McpAgent as ZenbookerMCP extends it: props passed to _init() are
+ * written to the object's own storage, unless the session already has props,
+ * and read back when the object wakes from hibernation.
+ */
+class FakeSession {
+  props?: SessionProps;
+  private readonly listJobs: RegisteredTool;
+
+  constructor(readonly storage: Map<string, unknown>, readonly env: ZenbookerEnvironment = {}) {
+    this.props = storage.get('props') as SessionProps | undefined;
+    this.listJobs = registerOnFakeServer(listJobsTool, this);
   }
-  
-  static getApiKey(): string | undefined {
-    return globalApiKey;
+
+  _init(props: SessionProps) {
+    this.props = retainSessionProps(this.storage.get('props') as SessionProps | undefined, props);
+    this.storage.set('props', this.props);
   }
-}
 
-// Simulate what happens in a Durable Object context
-class MockDurableObjectContext {
-  // In a real Durable Object, global variables from the main Worker don't persist
-  private isolatedGlobalApiKey: string | undefined = undefined;
-  
-  simulateToolExecution(apiKey?: string): string {
-    // This simulates what happens when a tool tries to access the global API key
-    const effectiveApiKey = apiKey || this.isolatedGlobalApiKey;
-    
-    if (!effectiveApiKey) {
-      throw new Error("Zenbooker API key is required. Please set the ZENBOOKER_API_KEY environment variable.");
-    }
-    
-    return effectiveApiKey;
+  getEnvironmentApiKey() {
+    return resolveSessionApiKey(this.props, this.env);
   }
-  
-  setApiKey(key?: string) {
-    this.isolatedGlobalApiKey = key;
+
+  callListJobs() {
+    return this.listJobs.call();
   }
 }
 
-describe('Durable Object API Key Issue', () => {
+/**
+ * API keys sent to Zenbooker, in call order
+ */
+function sentApiKeys(): string[] {
+  return (fetch as any).mock.calls.map(([, init]: [string, RequestInit]) =>
+    (init.headers as Record<string, string>).Authorization.replace('Bearer ', '')
+  );
+}
+
+describe('Per-session credentials', () => {
   beforeEach(() => {
-    globalApiKey = undefined;
+    vi.resetAllMocks();
+    (fetch as any).mockImplementation(() =>
+      Promise.resolve({ ok: true, json: () => Promise.resolve(mockApiResponses.jobs) })
+    );
   });
 
-  it('should demonstrate the isolation problem', () => {
-    // Main Worker sets the API key
-    MockMcpAgent.setApiKey('test-api-key');
-    expect(MockMcpAgent.getApiKey()).toBe('test-api-key');
-    
-    // But in Durable Object context, this is isolated
-    const durableObjectContext = new MockDurableObjectContext();
-    
-    // This should fail because the Durable Object doesn't have access to the main Worker's global
-    expect(() => durableObjectContext.simulateToolExecution()).toThrow('Zenbooker API key is required');
+  describe('readSessionApiKey', () => {
+    it('should read the key from the dedicated header', () => {
+      const request = new Request('https://mcp.example.com/mcp', { headers: { [SESSION_API_KEY_HEADER]: ' key-a ' } });
+
+      expect(readSessionApiKey(request)).toBe('key-a');
+    });
+
+    it('should not mistake the OAuth access token for a Zenbooker key', () => {
+      const request = new Request('https://mcp.example.com/sse', { headers: { Authorization: 'Bearer oauth-token' } });
+
+      expect(readSessionApiKey(request)).toBeUndefined();
+    });
   });
 
-  it('should work when API key is passed directly to the context', () => {
-    const durableObjectContext = new MockDurableObjectContext();
-    durableObjectContext.setApiKey('test-api-key');
-    
-    // This should work because we set it in the Durable Object's context
-    expect(durableObjectContext.simulateToolExecution()).toBe('test-api-key');
+  describe('sessionObjectName', () => {
+    it('should name the session of SSE and streamable HTTP requests the way McpAgent does', () => {
+      const sse = new Request('https://mcp.example.com/sse/message?sessionId=abc');
+      const streamable = new Request('https://mcp.example.com/mcp', { method: 'POST', headers: { 'mcp-session-id': 'def' } });
+
+      expect(sessionObjectName(sse)).toBe('sse:abc');
+      expect(sessionObjectName(streamable)).toBe('streamable-http:def');
+    });
+
+    it('should not name a session for a request that opens one', () => {
+      expect(sessionObjectName(new Request('https://mcp.example.com/mcp', { method: 'POST' }))).toBeUndefined();
+      expect(sessionObjectName(new Request('https://mcp.example.com/sse'))).toBeUndefined();
+    });
   });
 
-  it('should work when API key is passed as parameter', () => {
-    const durableObjectContext = new MockDurableObjectContext();
-    
-    // This should work because we pass it directly
-    expect(durableObjectContext.simulateToolExecution('test-api-key')).toBe('test-api-key');
+  describe('resolveSessionApiKey', () => {
+    it('should prefer the session key and use the environment key only as a fallback', () => {
+      expect(resolveSessionApiKey({ zenbookerApiKey: 'key-a' }, { ZENBOOKER_API_KEY: 'env-key' })).toBe('key-a');
+      expect(resolveSessionApiKey({}, { ZENBOOKER_API_KEY: 'env-key' })).toBe('env-key');
+      expect(resolveSessionApiKey(undefined)).toBeUndefined();
+    });
+  });
+
+  describe('session isolation', () => {
+    it('should call Zenbooker with each session\'s own key, even when calls interleave', async () => {
+      const sessionA = new FakeSession(new Map());
+      const sessionB = new FakeSession(new Map());
+      sessionA._init({ zenbookerApiKey: 'key-a' });
+      sessionB._init({ zenbookerApiKey: 'key-b' });
+
+      await Promise.all([sessionA.callListJobs(), sessionB.callListJobs(), sessionA.callListJobs()]);
+
+      expect(sentApiKeys().sort()).toEqual(['key-a', 'key-a', 'key-b']);
+    });
+
+    it('should not let a session without a key use another session\'s key', async () => {
+      const sessionA = new FakeSession(new Map());
+      const sessionB = new FakeSession(new Map());
+      sessionA._init({ zenbookerApiKey: 'key-a' });
+      sessionB._init({});
+
+      await sessionA.callListJobs();
+      const result = await sessionB.callListJobs();
+
+      expect(result.isError).toBe(true);
+      expect(result.content[0].text).toContain('Zenbooker API key is required');
+      expect(sentApiKeys()).toEqual(['key-a']);
+    });
+
+    it('should fall back to the environment key for a session without its own key', async () => {
+      const env = { ZENBOOKER_API_KEY: 'env-key' };
+      const sessionA = new FakeSession(new Map(), env);
+      const sessionB = new FakeSession(new Map(), env);
+      sessionA._init({ zenbookerApiKey: 'key-a' });
+      sessionB._init({});
+
+      await sessionB.callListJobs();
+      await sessionA.callListJobs();
+
+      expect(sentApiKeys()).toEqual(['env-key', 'key-a']);
+    });
+
+    it('should keep the props a session was opened with when an SSE client reconnects', async () => {
+      const session = new FakeSession(new Map());
+      session._init({ zenbookerApiKey: 'key-a', clientId: 'client-a', scopes: ['dispatcher'] });
+
+      session._init({ zenbookerApiKey: 'key-b', clientId: 'client-b', scopes: ['bookkeeper'] });
+      await session.callListJobs();
+
+      expect(session.props).toEqual({ zenbookerApiKey: 'key-a', clientId: 'client-a', scopes: ['dispatcher'] });
+      expect(sentApiKeys()).toEqual(['key-a']);
+    });
+
+    it('should only let the client that opened a session use it', () => {
+      const opened: SessionProps = { zenbookerApiKey: 'key-a', clientId: 'client-a', user: { login: 'dana' } };
+
+      expect(isSessionOwner(undefined, { zenbookerApiKey: 'key-b' })).toBe(true);
+      expect(isSessionOwner(opened, { ...opened, scopes: ['dispatcher'] })).toBe(true);
+      expect(isSessionOwner(opened, { ...opened, zenbookerApiKey: 'key-b' })).toBe(false);
+      expect(isSessionOwner(opened, { ...opened, clientId: 'client-b' })).toBe(false);
+      expect(isSessionOwner(opened, { ...opened, user: { login: 'eve' } })).toBe(false);
+    });
+
+    it('should keep the key after the Durable Object wakes from hibernation', async () => {
+      const storage = new Map<string, unknown>();
+      new FakeSession(storage)._init({ zenbookerApiKey: 'key-a' });
+
+      await new FakeSession(storage).callListJobs();
+
+      expect(sentApiKeys()).toEqual(['key-a']);
+    });
   });
 });
@@ -1,5 +1,21 @@
-import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
 import { TEST_API_KEY } from './setup';
+import { makeZenbookerRequest as makeRetryingRequest } from '../src/tools/base.js';
+import { computeRetryDelay, DEFAULT_RETRY_POLICY, parseRetryAfter } from '../src/tools/retry.js';
+import {
+	formatToolError,
+	ZenbookerApiError,
+	ZenbookerAuthError,
+	ZenbookerNotFoundError,
+	ZenbookerRateLimitError,
+	ZenbookerRequestCancelledError,
+	ZenbookerTimeoutError,
+	ZenbookerUpstreamError,
+	ZenbookerValidationError,
+} from '../src/tools/errors.js';
+import { registerOnFakeServer } from './fake-server';
+import { Logger } from '../src/logger.js';
+import type { ToolImplementation } from '../src/tools/base.js';
 
 // Mock the fetch function
 global.fetch = vi.fn();
@@ -301,4 +317,415 @@ describe('Error Handling and Edge Cases', () => {
 			expect(result.results).toHaveLength(100);
 		});
 	});
-});
\ No newline at end of file
+
+	describe('Retry Policy', () => {
+		const fastRetry = { baseDelayMs: 1, maxDelayMs: 1 };
+
+		function errorResponse(status: number, body: string, headers: Record<string, string> = {}) {
+			return {
+				ok: false,
+				status,
+				headers: new Headers(headers),
+				text: () => Promise.resolve(body),
+			};
+		}
+
+		function okResponse(data: unknown) {
+			return {
+				ok: true,
+				status: 200,
+				headers: new Headers(),
+				json: () => Promise.resolve(data),
+				text: () => Promise.resolve(JSON.stringify(data)),
+			};
+		}
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should retry a GET after a 503 and return the eventual success', async () => {
+			(fetch as any)
+				.mockResolvedValueOnce(errorResponse(503, 'Service Unavailable'))
+				.mockResolvedValueOnce(okResponse({ id: 'cust_1' }));
+
+			const result = await makeRetryingRequest('/customers/cust_1', 'GET', undefined, TEST_API_KEY, { retry: fastRetry });
+
+			expect(result).toEqual({ id: 'cust_1' });
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+
+		it('should retry network errors for idempotent requests', async () => {
+			(fetch as any)
+				.mockRejectedValueOnce(new Error('ECONNRESET'))
+				.mockResolvedValueOnce(okResponse({ results: [] }));
+
+			const result = await makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, { retry: fastRetry });
+
+			expect(result).toEqual({ results: [] });
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+
+		it('should honor Retry-After before retrying a 429', async () => {
+			vi.useFakeTimers();
+			(fetch as any)
+				.mockResolvedValueOnce(errorResponse(429, 'Rate limit exceeded', { 'Retry-After': '2' }))
+				.mockResolvedValueOnce(okResponse({ ok: true }));
+
+			const pending = makeRetryingRequest('/territories', 'GET', undefined, TEST_API_KEY);
+
+			await vi.advanceTimersByTimeAsync(1999);
+			expect(fetch).toHaveBeenCalledTimes(1);
+
+			await vi.advanceTimersByTimeAsync(1);
+			await expect(pending).resolves.toEqual({ ok: true });
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+
+		it('should give up after the maximum number of attempts', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(503, 'Service Unavailable'));
+
+			await expect(
+				makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, { retry: { ...fastRetry, maxAttempts: 4 } })
+			).rejects.toThrow('Zenbooker API Error (503): Service Unavailable');
+			expect(fetch).toHaveBeenCalledTimes(4);
+		});
+
+		it('should stop retrying when Retry-After exceeds the total time budget', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(429, 'Rate limit exceeded', { 'Retry-After': '120' }));
+
+			await expect(
+				makeRetryingRequest('/customers', 'GET', undefined, TEST_API_KEY)
+			).rejects.toThrow('Zenbooker API Error (429)');
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not retry non-transient errors', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(404, '{"error": "Customer not found"}'));
+
+			await expect(
+				makeRetryingRequest('/customers/missing', 'GET', undefined, TEST_API_KEY, { retry: fastRetry })
+			).rejects.toThrow('Zenbooker API Error (404)');
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not retry a POST without an idempotency key', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(503, 'Service Unavailable'));
+
+			await expect(
+				makeRetryingRequest('/customers', 'POST', { first_name: 'Jane' }, TEST_API_KEY, { retry: fastRetry })
+			).rejects.toThrow('Zenbooker API Error (503)');
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		it('should retry a POST carrying an idempotency key and send the key upstream', async () => {
+			(fetch as any)
+				.mockResolvedValueOnce(errorResponse(502, 'Bad Gateway'))
+				.mockResolvedValueOnce(okResponse({ id: 'cust_2' }));
+
+			const result = await makeRetryingRequest('/customers', 'POST', { first_name: 'Jane' }, TEST_API_KEY, {
+				idempotencyKey: 'create-jane-1',
+				retry: fastRetry,
+			});
+
+			expect(result).toEqual({ id: 'cust_2' });
+			expect(fetch).toHaveBeenCalledTimes(2);
+			expect(fetch).toHaveBeenLastCalledWith(
+				'https://api.zenbooker.com/v1/customers',
+				expect.objectContaining({
+					headers: expect.objectContaining({ 'Idempotency-Key': 'create-jane-1' }),
+				})
+			);
+		});
+
+		it('should parse Retry-After as seconds or an HTTP date', () => {
+			const now = Date.parse('2025-08-17T12:00:00Z');
+
+			expect(parseRetryAfter('3', now)).toBe(3000);
+			expect(parseRetryAfter('Sun, 17 Aug 2025 12:00:10 GMT', now)).toBe(10_000);
+			expect(parseRetryAfter('not-a-date', now)).toBeUndefined();
+			expect(parseRetryAfter(null, now)).toBeUndefined();
+		});
+
+		it('should apply jittered exponential backoff capped at maxDelayMs', () => {
+			const policy = { ...DEFAULT_RETRY_POLICY, baseDelayMs: 100, maxDelayMs: 1000 };
+
+			expect(computeRetryDelay(1, policy, undefined, () => 0.5)).toBe(50);
+			expect(computeRetryDelay(3, policy, undefined, () => 0.5)).toBe(200);
+			expect(computeRetryDelay(10, policy, undefined, () => 0.999)).toBeLessThan(1000);
+			expect(computeRetryDelay(1, policy, 2500)).toBe(2500);
+		});
+	});
+
+	describe('Typed API Errors', () => {
+		const noRetry = { maxAttempts: 1 };
+
+		function errorResponse(status: number, body: string, headers: Record<string, string> = {}) {
+			return {
+				ok: false,
+				status,
+				headers: new Headers(headers),
+				text: () => Promise.resolve(body),
+			};
+		}
+
+		async function captureError(promise: Promise<unknown>): Promise<unknown> {
+			try {
+				await promise;
+			} catch (error) {
+				return error;
+			}
+			throw new Error('Expected the request to fail');
+		}
+
+		it.each([
+			[401, ZenbookerAuthError],
+			[403, ZenbookerAuthError],
+			[404, ZenbookerNotFoundError],
+			[400, ZenbookerValidationError],
+			[422, ZenbookerValidationError],
+			[429, ZenbookerRateLimitError],
+			[500, ZenbookerUpstreamError],
+			[503, ZenbookerUpstreamError],
+		])('should map status %i to the matching error class', async (status, ErrorClass) => {
+			(fetch as any).mockResolvedValue(errorResponse(status, '{"error": "Failure"}'));
+
+			const error = await captureError(
+				makeRetryingRequest('/customers', 'GET', undefined, TEST_API_KEY, { retry: noRetry })
+			);
+
+			expect(error).toBeInstanceOf(ErrorClass);
+			expect(error).toBeInstanceOf(ZenbookerApiError);
+			expect((error as ZenbookerApiError).status).toBe(status);
+		});
+
+		it('should parse code, message and field details from the error body', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(
+				400,
+				'{"error": "Validation failed", "message": "Invalid customer", "code": "invalid_params", "details": {"email": "invalid format"}}'
+			));
+
+			const error = await captureError(
+				makeRetryingRequest('/customers', 'POST', { email: 'nope' }, TEST_API_KEY)
+			) as ZenbookerValidationError;
+
+			expect(error.code).toBe('invalid_params');
+			expect(error.apiMessage).toBe('Invalid customer');
+			expect(error.details).toEqual({ email: 'invalid format' });
+			expect(error.message).toBe('Zenbooker API Error (400): Invalid customer');
+		});
+
+		it('should fall back to the raw body when it is not JSON', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(502, 'Bad Gateway'));
+
+			const error = await captureError(
+				makeRetryingRequest('/invoices', 'GET', undefined, TEST_API_KEY, { retry: noRetry })
+			) as ZenbookerUpstreamError;
+
+			expect(error.apiMessage).toBe('Bad Gateway');
+			expect(error.retryable).toBe(true);
+		});
+
+		it('should mask customer details in a raw body and log the failure without it', async () => {
+			const lines: string[] = [];
+			const logger = new Logger({ sink: (_level, line) => lines.push(line) });
+			(fetch as any).mockResolvedValue(errorResponse(500, `Failed to save jane@example.com, 555-123-4567, 42 Elm Street ${'x'.repeat(1000)}`));
+
+			const error = await captureError(
+				makeRetryingRequest('/customers?email=jane@example.com', 'GET', undefined, TEST_API_KEY, { retry: noRetry, logger })
+			) as ZenbookerUpstreamError;
+
+			expect(error.apiMessage).toMatch(/^Failed to save \[EMAIL\], \[PHONE\], \[ADDRESS\] x+$/);
+			expect(error.apiMessage.length).toBeLessThan(520);
+			expect(lines).toHaveLength(1);
+			expect(JSON.parse(lines[0])).toMatchObject({ message: 'Zenbooker request failed', path: '/v1/customers', status: 500, retrying: false });
+			expect(lines[0]).not.toContain('jane');
+		});
+
+		it('should carry Retry-After on rate limit errors', async () => {
+			(fetch as any).mockResolvedValue(errorResponse(429, '{"error": "Rate limit exceeded"}', { 'Retry-After': '30' }));
+
+			const error = await captureError(
+				makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, { retry: noRetry })
+			) as ZenbookerRateLimitError;
+
+			expect(error.retryAfterMs).toBe(30_000);
+			expect(error.retryable).toBe(true);
+			expect(formatToolError(error).content[0].text).toContain('Wait about 30 seconds');
+		});
+
+		it('should format API errors as model-readable isError results', () => {
+			const result = formatToolError(new ZenbookerValidationError(422, 'Validation failed', {
+				code: 'invalid_params',
+				details: { first_name: 'is required' },
+			}));
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('Zenbooker API error 422: Validation failed');
+			expect(result.content[0].text).toContain('- first_name: is required');
+			expect(result._meta).toEqual({
+				error: {
+					type: 'ZenbookerValidationError',
+					status: 422,
+					code: 'invalid_params',
+					details: { first_name: 'is required' },
+					retryable: false,
+				},
+			});
+		});
+
+		it('should format unexpected errors as isError results', () => {
+			const result = formatToolError(new Error('ECONNREFUSED'));
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toBe('Tool execution failed: ECONNREFUSED');
+		});
+
+		it('should convert handler exceptions into isError results in registerTool', async () => {
+			const failingTool: ToolImplementation = {
+				name: 'failing_tool',
+				description: 'Always fails',
+				schema: {},
+				handler: async () => {
+					throw new ZenbookerNotFoundError(404, 'Customer not found');
+				},
+			};
+
+			const result = await registerOnFakeServer(failingTool, { getEnvironmentApiKey: () => TEST_API_KEY }).call();
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('Customer not found');
+			expect(result.content[0].text).toContain('list_* tool');
+		});
+	});
+
+	describe('Timeouts and Cancellation', () => {
+		const never = () => new Promise(() => {});
+
+		afterEach(() => {
+			vi.useRealTimers();
+		});
+
+		it('should fail with a retryable timeout error when Zenbooker hangs', async () => {
+			vi.useFakeTimers();
+			(fetch as any).mockImplementation(never);
+
+			const pending = makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, {
+				timeoutMs: 1000,
+				retry: { maxAttempts: 1 },
+			});
+			const assertion = expect(pending).rejects.toBeInstanceOf(ZenbookerTimeoutError);
+
+			await vi.advanceTimersByTimeAsync(1000);
+			await assertion;
+		});
+
+		it('should retry an idempotent request after a timeout', async () => {
+			vi.useFakeTimers();
+			(fetch as any)
+				.mockImplementationOnce(never)
+				.mockResolvedValueOnce({ ok: true, json: () => Promise.resolve({ id: 'job_1' }) });
+
+			const pending = makeRetryingRequest('/jobs/job_1', 'GET', undefined, TEST_API_KEY, {
+				timeoutMs: 500,
+				retry: { baseDelayMs: 1, maxDelayMs: 1 },
+			});
+
+			await vi.advanceTimersByTimeAsync(501);
+			await expect(pending).resolves.toEqual({ id: 'job_1' });
+			expect(fetch).toHaveBeenCalledTimes(2);
+		});
+
+		it('should time out when the response body stalls', async () => {
+			vi.useFakeTimers();
+			(fetch as any).mockResolvedValue({ ok: true, json: never });
+
+			const pending = makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, {
+				timeoutMs: 100,
+				retry: { maxAttempts: 1 },
+			});
+			const assertion = expect(pending).rejects.toBeInstanceOf(ZenbookerTimeoutError);
+
+			await vi.advanceTimersByTimeAsync(100);
+			await assertion;
+		});
+
+		it('should stop reading a stalled error body when the MCP request is cancelled', async () => {
+			(fetch as any).mockResolvedValue({ ok: false, status: 500, text: never });
+			const controller = new AbortController();
+
+			const pending = makeRetryingRequest('/jobs', 'GET', undefined, TEST_API_KEY, {
+				signal: controller.signal,
+				timeoutMs: 30_000,
+			});
+			await vi.waitFor(() => expect(fetch).toHaveBeenCalledTimes(1));
+			controller.abort();
+
+			await expect(pending).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		});
+
+		it('should pass an abort signal to fetch', async () => {
+			(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({}) });
+
+			await makeRetryingRequest('/customers', 'GET', undefined, TEST_API_KEY);
+
+			expect(fetch).toHaveBeenCalledWith(
+				expect.any(String),
+				expect.objectContaining({ signal: expect.any(AbortSignal) })
+			);
+		});
+
+		it('should stop immediately when the MCP request is cancelled', async () => {
+			(fetch as any).mockImplementation(never);
+			const controller = new AbortController();
+
+			const pending = makeRetryingRequest('/customers', 'GET', undefined, TEST_API_KEY, { signal: controller.signal });
+			controller.abort();
+
+			await expect(pending).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+			expect(fetch).toHaveBeenCalledTimes(1);
+		});
+
+		it('should not call Zenbooker when already cancelled', async () => {
+			const controller = new AbortController();
+			controller.abort();
+
+			await expect(
+				makeRetryingRequest('/customers', 'GET', undefined, TEST_API_KEY, { signal: controller.signal })
+			).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+			expect(fetch).not.toHaveBeenCalled();
+		});
+
+		it('should format timeouts as distinct, retryable error results', () => {
+			const result = formatToolError(new ZenbookerTimeoutError(10_000));
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('timed out after 10000ms');
+			expect(result._meta).toEqual({
+				error: { type: 'ZenbookerTimeoutError', timeoutMs: 10_000, retryable: true },
+			});
+		});
+
+		it('should forward the MCP cancellation signal and tool timeout through registerTool', async () => {
+			const handler = vi.fn().mockResolvedValue({ content: [{ type: 'text', text: 'ok' }] });
+			const slowTool: ToolImplementation = {
+				name: 'slow_tool',
+				description: 'Takes a while',
+				schema: {},
+				timeoutMs: 30_000,
+				handler,
+			};
+			const controller = new AbortController();
+
+			await registerOnFakeServer(slowTool, {
+				getEnvironmentApiKey: () => TEST_API_KEY,
+				getToolContext: () => ({ timeoutMs: 5_000 }),
+			}).call({}, controller.signal);
+
+			expect(handler).toHaveBeenCalledWith({}, TEST_API_KEY, expect.objectContaining({
+				signal: controller.signal,
+				timeoutMs: 30_000,
+			}));
+		});
+	});
+});
@@ -0,0 +1,96 @@
+import type { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import type { ToolImplementation, ToolResult } from '../src/tools/base.js';
+import { registerTool } from '../src/tools/registry.js';
+
+/**
+ * Provider handed to registerTool: the session's API key and tool context
+ */
+export type ToolProvider = Parameters<typeof registerTool>[2];
+
+/**
+ * Tool result as the tests inspect it; structured content and metadata vary by tool
+ */
+export type ToolCallResult = ToolResult & {
+	structuredContent?: Record<string, any>;
+	_meta?: Record<string, any>;
+};
+
+/**
+ * Config a tool was registered with
+ */
+export interface RegisteredToolConfig {
+	description?: string;
+	inputSchema: Record<string, unknown>;
+	outputSchema?: Record<string, unknown>;
+	annotations?: { readOnlyHint?: boolean };
+}
+
+type ToolCallback = (params: unknown, extra: { signal: AbortSignal }) => Promise<ToolCallResult>;
+
+/**
+ * A tool as registered on the fake server
+ */
+export interface RegisteredTool {
+	config: RegisteredToolConfig;
+	/**
+	 * Calls the tool the way the MCP server does
+	 *
+	 * @param params - Tool arguments
+	 * @param signal - Cancellation signal of the MCP request
+	 */
+	call(params?: unknown, signal?: AbortSignal): Promise<ToolCallResult>;
+}
+
+/**
+ * Stand-in for McpServer that records the tools registered on it
+ */
+export class FakeMcpServer {
+	readonly tools = new Map<string, RegisteredTool>();
+
+	/**
+	 * Names of the registered tools, in registration order
+	 */
+	get names(): string[] {
+		return Array.from(this.tools.keys());
+	}
+
+	/**
+	 * This server typed as the McpServer the registry expects
+	 */
+	get server(): McpServer {
+		const registerTool = (name: string, config: RegisteredToolConfig, callback: ToolCallback) => {
+			this.tools.set(name, {
+				config,
+				call: (params = {}, signal = new AbortController().signal) => callback(params, { signal }),
+			});
+		};
+		return { registerTool } as unknown as McpServer;
+	}
+
+	/**
+	 * Gets a registered tool
+	 *
+	 * @param name - Tool name
+	 * @throws Error if no tool of that name was registered
+	 */
+	tool(name: string): RegisteredTool {
+		const tool = this.tools.get(name);
+		if (!tool) {
+			throw new Error(`Tool "${name}" was not registered`);
+		}
+		return tool;
+	}
+}
+
+/**
+ * Registers one tool on a fake server
+ *
+ * @param tool - Tool to register
+ * @param provider - Provider of the API key and tool context
+ * @returns The registered tool, ready to be called
+ */
+export function registerOnFakeServer(tool: ToolImplementation, provider: ToolProvider): RegisteredTool {
+	const fake = new FakeMcpServer();
+	registerTool(fake.server, tool, provider);
+	return fake.tool(tool.name);
+}
@@ -58,11 +58,9 @@ export async function createTestMcpServer(apiKey: string = 'test-api-key-123') {
   // to avoid import issues during testing
   const { ZenbookerMCP } = await import('../src/index.js');
   
-  // Set the API key globally
-  ZenbookerMCP.setApiKey(apiKey);
-  
-  // Create and initialize the server
+  // Create and initialize the server with the key as the session's own
   const mcpAgent = new ZenbookerMCP();
+  mcpAgent.props = { zenbookerApiKey: apiKey };
   await mcpAgent.init();
   
   return mcpAgent.server;
@@ -0,0 +1,373 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { findOverlappingJobs, JobAssignmentError, territoryCoversAddress } from '../src/tools/job-assignment.js';
+import {
+	addJobNoteTool,
+	assignJobTool,
+	cancelJobTool,
+	completeJobTool,
+	InvalidAppointmentSlotError,
+	JobStatusTransitionError,
+	rescheduleJobTool,
+	startJobTool,
+	unassignJobTool,
+} from '../src/tools/jobs.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const slot = {
+	datetime: '2099-03-14T15:00:00.000Z',
+	duration_minutes: 90,
+	team_member_id: 'tm-7',
+	team_member_name: 'Ana Lopez',
+};
+
+/**
+ * Body sent to Zenbooker by the given fetch call
+ */
+function sentBody(call = 0) {
+	const [, init] = (fetch as any).mock.calls[call];
+	return JSON.parse(init.body);
+}
+
+/**
+ * Answers the job lookup with a job in the given status, then echoes the change
+ */
+function mockJobInStatus(status: string) {
+	(fetch as any)
+		.mockResolvedValueOnce({
+			ok: true,
+			json: () => Promise.resolve({ id: 'job-9', customer_id: 'cust-1', status, start_time: '2099-03-10T15:00:00.000Z' }),
+		})
+		.mockResolvedValueOnce({
+			ok: true,
+			json: () => Promise.resolve({ id: 'job-9', customer_id: 'cust-1', status: 'cancelled', start_time: slot.datetime }),
+		});
+}
+
+describe('reschedule_job tool', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should move a scheduled job to the new slot', async () => {
+		mockJobInStatus('scheduled');
+
+		await rescheduleJobTool.handler({ id: 'job-9', slot, reason: 'Customer asked for a later time', notify_customer: false }, TEST_API_KEY);
+
+		const [url, init] = (fetch as any).mock.calls[1];
+		expect(url).toContain('/jobs/job-9/reschedule');
+		expect(init.method).toBe('POST');
+		expect(sentBody(1)).toEqual({
+			start_time: '2099-03-14T15:00:00.000Z',
+			end_time: '2099-03-14T16:30:00.000Z',
+			duration_minutes: 90,
+			assigned_team_member_id: 'tm-7',
+			reason: 'Customer asked for a later time',
+			notify_customer: false,
+		});
+	});
+
+	it('should refuse jobs that are in progress, completed or cancelled', async () => {
+		for (const status of ['in_progress', 'completed', 'cancelled']) {
+			vi.resetAllMocks();
+			mockJobInStatus(status);
+
+			await expect(rescheduleJobTool.handler({ id: 'job-9', slot }, TEST_API_KEY)).rejects.toThrow(JobStatusTransitionError);
+			expect(fetch).toHaveBeenCalledTimes(1);
+		}
+	});
+
+	it('should check the slot before looking up the job', async () => {
+		await expect(rescheduleJobTool.handler({ id: 'job-9', slot: { ...slot, datetime: '2001-01-01T09:00:00Z' } }, TEST_API_KEY))
+			.rejects.toThrow(InvalidAppointmentSlotError);
+		expect(fetch).not.toHaveBeenCalled();
+	});
+});
+
+describe('cancel_job tool', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should cancel a confirmed job and notify the customer by default', async () => {
+		mockJobInStatus('confirmed');
+
+		const result = await cancelJobTool.handler({ id: 'job-9', reason: 'Customer moved away' }, TEST_API_KEY);
+
+		expect((fetch as any).mock.calls[1][0]).toContain('/jobs/job-9/cancel');
+		expect(sentBody(1)).toEqual({ reason: 'Customer moved away', notify_customer: true });
+		expect(result.content[0].text).toContain('cancelled');
+	});
+
+	it('should explain why a completed job cannot be cancelled', async () => {
+		mockJobInStatus('completed');
+
+		await expect(cancelJobTool.handler({ id: 'job-9' }, TEST_API_KEY)).rejects.toThrow(
+			'Cannot cancel job job-9 with status "completed": it has already been completed'
+		);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+
+	it('should refuse to cancel a job twice', async () => {
+		mockJobInStatus('cancelled');
+
+		await expect(cancelJobTool.handler({ id: 'job-9' }, TEST_API_KEY)).rejects.toThrow('it is already cancelled');
+	});
+});
+
+const territories = [
+	{ id: 'terr-1', name: 'Springfield', zip_codes: ['62701', '62702'], active: true },
+	{ id: 'terr-2', name: 'Shelbyville', cities: ['Shelbyville'], active: true },
+	{ id: 'terr-3', name: 'Old Town', zip_codes: ['62703'], active: false },
+];
+
+const member = {
+	id: 'tm-7',
+	first_name: 'Ana',
+	last_name: 'Lopez',
+	email: 'ana@example.com',
+	role: 'cleaner',
+	active: true,
+	territories: ['terr-1'],
+};
+
+const job = {
+	id: 'job-9',
+	customer_id: 'cust-1',
+	status: 'scheduled',
+	start_time: '2099-03-14T15:00:00.000Z',
+	end_time: '2099-03-14T16:30:00.000Z',
+	address: '12345 Oak Ave, Springfield, IL 62701',
+};
+
+/**
+ * Answers Zenbooker requests by path, recording PATCH bodies
+ */
+function mockZenbooker(overrides: { job?: object; member?: object; schedule?: object[]; busySchedule?: boolean } = {}) {
+	const currentJob = { ...job, ...overrides.job };
+	(fetch as any).mockImplementation((url: string, init: RequestInit) => {
+		const { pathname } = new URL(url);
+		let body: unknown;
+		if (init.method === 'PATCH') {
+			body = { ...currentJob, ...JSON.parse(init.body as string) };
+		} else if (pathname.endsWith('/jobs/job-9')) {
+			body = currentJob;
+		} else if (pathname.endsWith('/team_members/tm-7')) {
+			body = { ...member, ...overrides.member };
+		} else if (pathname.endsWith('/territories')) {
+			body = { cursor: 0, results: territories, count: territories.length, has_more: false, next_cursor: null };
+		} else if (overrides.busySchedule) {
+			// An endless schedule of short jobs earlier that day, served page by page
+			const cursor = Number(new URL(url).searchParams.get('cursor') ?? 0);
+			const limit = Number(new URL(url).searchParams.get('limit'));
+			const results = Array.from({ length: limit }, (_, i) => ({
+				id: `busy-${cursor + i}`,
+				customer_id: 'c',
+				status: 'confirmed',
+				start_time: '2099-03-14T08:00:00.000Z',
+				duration_minutes: 15,
+				assigned_team_member_id: 'tm-7',
+			}));
+			body = { cursor, results, count: limit, has_more: true, next_cursor: cursor + limit };
+		} else {
+			const schedule = overrides.schedule ?? [];
+			body = { cursor: 0, results: schedule, count: schedule.length, has_more: false, next_cursor: null };
+		}
+		return Promise.resolve({ ok: true, json: () => Promise.resolve(body) });
+	});
+}
+
+/**
+ * Methods of the requests sent to Zenbooker
+ */
+function sentMethods(): string[] {
+	return (fetch as any).mock.calls.map(([, init]: [string, RequestInit]) => init.method);
+}
+
+describe('job assignment checks', () => {
+	it('should match addresses on zip codes, then cities', () => {
+		expect(territoryCoversAddress(territories[0], '12345 Oak Ave, Springfield, IL 62701')).toBe(true);
+		expect(territoryCoversAddress(territories[0], '62701 Oak Ave, Decatur, IL 62521')).toBe(false);
+		expect(territoryCoversAddress(territories[1], '9 Elm St, Shelbyville, IL 62565')).toBe(true);
+		expect(territoryCoversAddress(territories[1], '9 Elm St, North Shelbyvillex, IL')).toBe(false);
+		expect(territoryCoversAddress(territories[2], '1 Main St, Springfield, IL 62703')).toBe(false);
+	});
+
+	it('should find the member\'s open jobs that overlap in time', () => {
+		const schedule = [
+			{ id: 'job-1', customer_id: 'c', status: 'confirmed', start_time: '2099-03-14T16:00:00.000Z', duration_minutes: 60, assigned_team_member_id: 'tm-7' },
+			{ id: 'job-2', customer_id: 'c', status: 'confirmed', start_time: '2099-03-14T16:30:00.000Z', duration_minutes: 60, assigned_team_member_id: 'tm-7' },
+			{ id: 'job-3', customer_id: 'c', status: 'cancelled', start_time: '2099-03-14T15:00:00.000Z', duration_minutes: 60, assigned_team_member_id: 'tm-7' },
+			{ id: 'job-4', customer_id: 'c', status: 'confirmed', start_time: '2099-03-14T15:00:00.000Z', duration_minutes: 60, assigned_team_member_id: 'tm-2' },
+		] as any[];
+
+		expect(findOverlappingJobs(job as any, 'tm-7', schedule).map((other) => other.id)).toEqual(['job-1']);
+	});
+});
+
+describe('assign_job tool', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should assign an active member whose territory covers the job', async () => {
+		mockZenbooker({ job: { assigned_team_member_id: 'tm-2' } });
+
+		const result = await assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY);
+
+		const patch = (fetch as any).mock.calls.find(([, init]: [string, RequestInit]) => init.method === 'PATCH');
+		expect(patch[0]).toContain('/jobs/job-9');
+		expect(JSON.parse(patch[1].body)).toEqual({ assigned_team_member_id: 'tm-7' });
+		expect(result.structuredContent.job.assigned_team_member_id).toBe('tm-7');
+		expect(result.structuredContent.warnings).toEqual(['Job was reassigned from team member tm-2']);
+	});
+
+	it('should warn about overlapping jobs in the member\'s schedule', async () => {
+		mockZenbooker({
+			schedule: [{ id: 'job-1', customer_id: 'c', status: 'confirmed', start_time: '2099-03-14T16:00:00.000Z', end_time: '2099-03-14T17:00:00.000Z', assigned_team_member_id: 'tm-7' }],
+		});
+
+		const result = await assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY);
+
+		expect(result.structuredContent.warnings).toEqual([
+			'Team member tm-7 already has job job-1 from 2099-03-14T16:00:00.000Z to 2099-03-14T17:00:00.000Z, which overlaps this job',
+		]);
+		const listCall = (fetch as any).mock.calls.find(([url]: [string]) => new URL(url).pathname.endsWith('/jobs'));
+		expect(listCall[0]).toContain('assigned_team_member_id=tm-7');
+		expect(listCall[0]).toContain('start_date=2099-03-13');
+		expect(listCall[0]).toContain('end_date=2099-03-14');
+	});
+
+	it('should warn when the member\'s schedule was only partly checked', async () => {
+		mockZenbooker({ busySchedule: true });
+
+		const result = await assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY);
+
+		expect(result.structuredContent.warnings).toEqual([
+			'Only the first 500 jobs around this job\'s time were checked for overlaps; check the rest of team member tm-7\'s schedule with list_jobs',
+		]);
+		expect(sentMethods()).toContain('PATCH');
+	});
+
+	it('should refuse inactive members without changing the job', async () => {
+		mockZenbooker({ member: { active: false } });
+
+		await expect(assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY))
+			.rejects.toThrow('Team member Ana Lopez (tm-7) is not active');
+		expect(sentMethods()).not.toContain('PATCH');
+	});
+
+	it('should refuse jobs outside the member\'s territories', async () => {
+		mockZenbooker({ member: { territories: ['terr-2', 'terr-3'] } });
+
+		await expect(assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY))
+			.rejects.toThrow(JobAssignmentError);
+		await expect(assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY))
+			.rejects.toThrow('outside the territories of team member Ana Lopez (tm-7): Shelbyville, Old Town');
+		expect(sentMethods()).not.toContain('PATCH');
+	});
+
+	it('should refuse completed jobs before looking up the member', async () => {
+		mockZenbooker({ job: { status: 'completed' } });
+
+		await expect(assignJobTool.handler({ id: 'job-9', team_member_id: 'tm-7' }, TEST_API_KEY)).rejects.toThrow(JobStatusTransitionError);
+		expect(fetch).toHaveBeenCalledTimes(1);
+	});
+});
+
+describe('unassign_job tool', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should clear the assigned team member', async () => {
+		mockZenbooker({ job: { assigned_team_member_id: 'tm-7' } });
+
+		const result = await unassignJobTool.handler({ id: 'job-9' }, TEST_API_KEY);
+
+		expect(JSON.parse((fetch as any).mock.calls[1][1].body)).toEqual({ assigned_team_member_id: null });
+		expect(result.structuredContent.job.assigned_team_member_id).toBeNull();
+	});
+
+	it('should leave a job without a team member unchanged', async () => {
+		mockZenbooker();
+
+		const result = await unassignJobTool.handler({ id: 'job-9' }, TEST_API_KEY);
+
+		expect(sentMethods()).toEqual(['GET']);
+		expect(result.structuredContent.warnings).toEqual(['Job has no assigned team member; nothing was changed']);
+	});
+});
+
+describe('job lifecycle tools', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should start a confirmed job and show the status change', async () => {
+		mockZenbooker({ job: { status: 'confirmed' } });
+
+		const result = await startJobTool.handler({ id: 'job-9' }, TEST_API_KEY);
+
+		expect(JSON.parse((fetch as any).mock.calls[1][1].body)).toEqual({ status: 'in_progress' });
+		expect(result.structuredContent).toMatchObject({ status_before: 'confirmed', status_after: 'in_progress' });
+	});
+
+	it('should complete a job with its actual duration', async () => {
+		mockZenbooker({ job: { status: 'in_progress' } });
+
+		const result = await completeJobTool.handler({ id: 'job-9', actual_duration_minutes: 105 }, TEST_API_KEY);
+
+		expect(JSON.parse((fetch as any).mock.calls[1][1].body)).toEqual({ status: 'completed', actual_duration_minutes: 105 });
+		expect(result.structuredContent).toMatchObject({ status_before: 'in_progress', status_after: 'completed' });
+		expect(result.structuredContent.job.actual_duration_minutes).toBe(105);
+	});
+
+	it('should refuse to start or complete jobs their status does not allow', async () => {
+		mockZenbooker({ job: { status: 'in_progress' } });
+		await expect(startJobTool.handler({ id: 'job-9' }, TEST_API_KEY)).rejects.toThrow('it is already in progress');
+
+		mockZenbooker({ job: { status: 'cancelled' } });
+		await expect(completeJobTool.handler({ id: 'job-9' }, TEST_API_KEY)).rejects.toThrow(
+			'Cannot complete job job-9 with status "cancelled"'
+		);
+
+		mockZenbooker({ job: { status: 'pending' } });
+		await expect(startJobTool.handler({ id: 'job-9' }, TEST_API_KEY)).rejects.toThrow(JobStatusTransitionError);
+		expect(sentMethods()).not.toContain('PATCH');
+	});
+
+	it('should append timestamped notes after the existing ones', async () => {
+		vi.useFakeTimers({ now: new Date('2099-03-14T16:05:00.000Z'), toFake: ['Date'] });
+		try {
+			mockZenbooker({ job: { status: 'in_progress', notes: 'Gate code 4411' } });
+
+			const result = await addJobNoteTool.handler({ id: 'job-9', note: ' Replaced the filter ' }, TEST_API_KEY);
+
+			expect(JSON.parse((fetch as any).mock.calls[1][1].body)).toEqual({
+				notes: 'Gate code 4411\n[2099-03-14T16:05:00.000Z] Replaced the filter',
+			});
+			expect(result.structuredContent).toMatchObject({ status_before: 'in_progress', status_after: 'in_progress' });
+		} finally {
+			vi.useRealTimers();
+		}
+	});
+
+	it('should lose a note added concurrently, as its description warns', async () => {
+		mockZenbooker({ job: { notes: 'Gate code 4411' } });
+
+		await Promise.all([
+			addJobNoteTool.handler({ id: 'job-9', note: 'First' }, TEST_API_KEY),
+			addJobNoteTool.handler({ id: 'job-9', note: 'Second' }, TEST_API_KEY),
+		]);
+
+		// Both calls read the notes before either wrote them, so the last write drops the other note
+		const patches = (fetch as any).mock.calls.filter(([, init]: [string, RequestInit]) => init.method === 'PATCH');
+		const lastNotes: string = JSON.parse(patches[1][1].body).notes;
+		expect(lastNotes.startsWith('Gate code 4411\n')).toBe(true);
+		expect(lastNotes.includes('First') && lastNotes.includes('Second')).toBe(false);
+		expect(addJobNoteTool.description).toContain('can be lost');
+	});
+});
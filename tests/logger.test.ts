@@ -0,0 +1,116 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { resolveZenbookerConfig } from '../src/config.js';
+import { createRequestLogger, Logger, redact, redactText } from '../src/logger.js';
+
+/**
+ * Creates a logger that collects its entries
+ */
+function collectingLogger(options: ConstructorParameters<typeof Logger>[0] = {}) {
+	const entries: Array<Record<string, unknown>> = [];
+	const logger = new Logger({ ...options, sink: (_level, line) => entries.push(JSON.parse(line)) });
+	return { logger, entries };
+}
+
+describe('Logger', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('redaction', () => {
+		it('should mask emails, phone numbers, street addresses and bearer tokens in text', () => {
+			expect(redactText('Customer jane.doe+vip@example.com called from (555) 123-4567 about 1200 North Oak Ave.'))
+				.toBe('Customer [EMAIL] called from [PHONE] about [ADDRESS]');
+			expect(redactText('Authorization: Bearer zb_live_abc.def')).toBe('Authorization: Bearer [REDACTED]');
+			expect(redactText('call +1 555.123.4567 now')).toBe('call [PHONE] now');
+		});
+
+		it('should leave IDs, dates and correlation IDs alone', () => {
+			const text = 'job_1234567890 on 2025-08-17T10:00:00.000Z, request 123e4567-e89b-12d3-a456-426614174000';
+
+			expect(redactText(text)).toBe(text);
+		});
+
+		it('should mask known secrets wherever they appear', () => {
+			expect(redactText('key zb-secret-123 rejected', ['zb-secret-123'])).toBe('key [REDACTED] rejected');
+		});
+
+		it('should drop values under sensitive keys and reduce errors to their summary', () => {
+			const error = Object.assign(new Error('Duplicate customer jane@example.com'), { status: 409 });
+
+			expect(redact({
+				apiKey: 'zb-secret',
+				headers: { Authorization: 'Bearer abc' },
+				customer: { id: 'cust_1', email: 'jane@example.com', phone_number: '5551234567', address: { city: 'Austin' } },
+				error,
+			})).toEqual({
+				apiKey: '[REDACTED]',
+				headers: { Authorization: '[REDACTED]' },
+				customer: { id: 'cust_1', email: '[REDACTED]', phone_number: '[REDACTED]', address: '[REDACTED]' },
+				error: { name: 'Error', message: 'Duplicate customer [EMAIL]', status: 409, code: undefined },
+			});
+		});
+	});
+
+	it('should write one JSON line with the level, message, bindings and fields', () => {
+		const { logger, entries } = collectingLogger({ bindings: { requestId: 'ray-1' } });
+
+		logger.child({ sessionId: 'session-1', tool: 'list_jobs' }).info('Tool call finished', { durationMs: 12 });
+
+		expect(entries).toEqual([{
+			time: expect.any(String),
+			level: 'info',
+			message: 'Tool call finished',
+			requestId: 'ray-1',
+			sessionId: 'session-1',
+			tool: 'list_jobs',
+			durationMs: 12,
+		}]);
+	});
+
+	it('should skip entries below its level', () => {
+		const { logger, entries } = collectingLogger({ level: 'warn' });
+
+		logger.debug('noise');
+		logger.info('noise');
+		logger.warn('kept');
+		logger.error('kept');
+
+		expect(entries.map((entry) => entry.level)).toEqual(['warn', 'error']);
+	});
+
+	it('should mask the secrets of the logger and its children', () => {
+		const { logger, entries } = collectingLogger({ secrets: ['session-key-1'] });
+
+		logger.child({}, ['account-key-2']).warn('Rejected session-key-1 and account-key-2', { detail: 'account-key-2' });
+
+		expect(JSON.stringify(entries)).not.toMatch(/session-key-1|account-key-2/);
+	});
+
+	it('should write to the console method of the level', () => {
+		const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		new Logger().error('failed');
+		new Logger().info('started');
+
+		expect(error).toHaveBeenCalledTimes(1);
+		expect(log).toHaveBeenCalledTimes(1);
+	});
+
+	it('should correlate request logs by ray ID and MCP session ID', () => {
+		const request = new Request('https://mcp.example.com/mcp', {
+			headers: { 'cf-ray': 'ray-42', 'mcp-session-id': 'session-7' },
+		});
+		const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+
+		createRequestLogger(request, { LOG_LEVEL: 'debug' }).debug('Handling request');
+
+		expect(JSON.parse(log.mock.calls[0][0])).toMatchObject({ requestId: 'ray-42', sessionId: 'session-7' });
+	});
+
+	it('should read the level from the environment', () => {
+		expect(resolveZenbookerConfig({}).logLevel).toBe('info');
+		expect(resolveZenbookerConfig({ LOG_LEVEL: 'DEBUG' }).logLevel).toBe('debug');
+		expect(() => resolveZenbookerConfig({ LOG_LEVEL: 'verbose' })).toThrow('Unknown LOG_LEVEL "verbose"');
+	});
+});
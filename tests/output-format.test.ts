@@ -0,0 +1,97 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { formatToolResult } from '../src/tools/base.js';
+import { getJobTool, listJobsTool } from '../src/tools/jobs.js';
+import { renderOutput } from '../src/tools/output-format.js';
+import { registerOnFakeServer } from './fake-server';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+const page = {
+	cursor: 0,
+	results: [
+		{ id: 'cust_1', first_name: 'Ann', notes: 'Gate code | 1234\nRing twice', tags: ['vip'] },
+		{ id: 'cust_2', first_name: 'Bo, Jr.', notes: '=HYPERLINK("http://evil")', tags: [] },
+	],
+	count: 2,
+	has_more: true,
+	next_cursor: 2,
+};
+
+describe('Output formats', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should default to indented JSON', () => {
+		expect(renderOutput(page)).toBe(JSON.stringify(page, null, 2));
+	});
+
+	it('should render compact JSON', () => {
+		expect(renderOutput(page, 'compact')).toBe(JSON.stringify(page));
+	});
+
+	it('should render results as a Markdown table with a continuation note', () => {
+		const meta: Record<string, unknown> = {};
+
+		const text = renderOutput(page, 'markdown', { meta });
+
+		expect(text.split('\n').slice(0, 4)).toEqual([
+			'| id | first_name | notes | tags |',
+			'| --- | --- | --- | --- |',
+			'| cust_1 | Ann | Gate code \\| 1234 Ring twice | ["vip"] |',
+			'| cust_2 | Bo, Jr. | =HYPERLINK("http://evil") | [] |',
+		]);
+		expect(text).toContain('pass cursor=2 to continue');
+		expect(meta.pagination).toEqual({ cursor: 0, count: 2, has_more: true, next_cursor: 2 });
+	});
+
+	it('should render results as CSV with quoting and formula protection', () => {
+		expect(renderOutput(page, 'csv').split('\r\n')).toEqual([
+			'id,first_name,notes,tags',
+			'cust_1,Ann,"Gate code | 1234\nRing twice","[""vip""]"',
+			`cust_2,"Bo, Jr.","'=HYPERLINK(""http://evil"")",[]`,
+		]);
+	});
+
+	it('should use the requested result fields as columns, in order', () => {
+		const fields = ['results.first_name', 'results.id', 'has_more'];
+
+		expect(renderOutput(page, 'csv', { fields }).split('\r\n')).toEqual([
+			'first_name,id',
+			'Ann,cust_1',
+			'"Bo, Jr.",cust_2',
+		]);
+		expect(formatToolResult(page, { fields, format: 'markdown' }).content[0].text.split('\n')[0]).toBe('| first_name | id |');
+	});
+
+	it('should read nested columns', () => {
+		const nested = { ...page, results: [{ id: 'job_1', customer: { name: 'Ann' } }] };
+
+		expect(renderOutput(nested, 'csv', { fields: ['results.id', 'results.customer.name'] })).toBe('id,customer.name\r\njob_1,Ann');
+	});
+
+	it('should fall back to JSON for data without results', () => {
+		expect(renderOutput(mockApiResponses.job, 'csv')).toBe(JSON.stringify(mockApiResponses.job, null, 2));
+	});
+
+	it('should only offer the format option on list tools', () => {
+		expect(z.object(listJobsTool.schema).safeParse({ format: 'csv' }).success).toBe(true);
+		expect(z.object(listJobsTool.schema).safeParse({ format: 'xml' }).success).toBe(false);
+		expect(getJobTool.schema.format).toBeUndefined();
+	});
+
+	it('should apply the format through registerTool without sending it upstream', async () => {
+		(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockApiResponses.jobs) });
+		const listJobs = registerOnFakeServer(listJobsTool, { getEnvironmentApiKey: () => TEST_API_KEY });
+
+		const result = await listJobs.call({ format: 'csv', fields: 'results.id,results.status' });
+
+		expect(fetch).toHaveBeenCalledWith('https://api.zenbooker.com/v1/jobs', expect.anything());
+		expect(result.content[0].text).toBe('id,status\r\njob_123,scheduled');
+		expect(result._meta.pagination).toEqual({ cursor: 0, count: 1, has_more: false, next_cursor: null });
+	});
+});
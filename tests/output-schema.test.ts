@@ -0,0 +1,114 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { z } from 'zod';
+import { McpServer } from '@modelcontextprotocol/sdk/server/mcp.js';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { jobSchema } from '../src/schemas.js';
+import { allTools } from '../src/tools/index.js';
+import { conformStructuredContent, outputShape } from '../src/tools/output-schema.js';
+import { registerAllTools } from '../src/tools/registry.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Connects an MCP client to a server with every Zenbooker tool registered
+ */
+async function connect() {
+	const server = new McpServer({ name: 'test', version: '1.0.0' });
+	registerAllTools(server, { getEnvironmentApiKey: () => TEST_API_KEY });
+	const client = new Client({ name: 'test-client', version: '1.0.0' });
+	const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+	await Promise.all([server.connect(serverTransport), client.connect(clientTransport)]);
+	return { client, server };
+}
+
+/**
+ * Makes the next fetch call succeed with the given body
+ */
+function respondWith(data: unknown) {
+	(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(data) });
+}
+
+describe('Structured tool output', () => {
+	let connection: Awaited<ReturnType<typeof connect>>;
+
+	beforeEach(async () => {
+		vi.resetAllMocks();
+		vi.spyOn(console, 'warn').mockImplementation(() => {});
+		connection = await connect();
+	});
+
+	afterEach(async () => {
+		await connection.client.close();
+		vi.restoreAllMocks();
+	});
+
+	it('should declare an output schema on every tool', async () => {
+		const { tools } = await connection.client.listTools();
+
+		expect(allTools.every((tool) => tool.outputSchema)).toBe(true);
+		expect(tools).toHaveLength(allTools.length);
+		for (const tool of tools) {
+			expect(tool.outputSchema?.type).toBe('object');
+		}
+		const listJobs = tools.find((tool) => tool.name === 'list_jobs');
+		expect(Object.keys(listJobs?.outputSchema?.properties ?? {})).toEqual(
+			expect.arrayContaining(['cursor', 'results', 'has_more', 'next_cursor', 'pages_fetched', 'truncated'])
+		);
+	});
+
+	it('should return the response as structuredContent next to the text', async () => {
+		respondWith(mockApiResponses.jobs);
+
+		const result = await connection.client.callTool({ name: 'list_jobs', arguments: {} });
+
+		expect(result.isError).toBeFalsy();
+		expect(result.structuredContent).toEqual(mockApiResponses.jobs);
+		expect(JSON.parse((result.content as any)[0].text)).toEqual(mockApiResponses.jobs);
+	});
+
+	it('should project structuredContent like the text', async () => {
+		respondWith(mockApiResponses.customer);
+
+		const result = await connection.client.callTool({
+			name: 'get_customer',
+			arguments: { id: 'cust_456', fields: 'id,email' },
+		});
+
+		expect(result.structuredContent).toEqual({ id: 'cust_456', email: 'john.doe@example.com' });
+	});
+
+	it('should keep structured output valid when a lenient response has drifted', async () => {
+		respondWith({ ...mockApiResponses.job, status: 'rescheduled', duration_minutes: '90' });
+
+		const result = await connection.client.callTool({ name: 'get_job', arguments: { id: 'job_123' } });
+
+		expect(result.isError).toBeFalsy();
+		expect((result.content as any)[0].text).toContain('rescheduled');
+		expect(result.structuredContent).not.toHaveProperty('status');
+		expect(result.structuredContent).not.toHaveProperty('duration_minutes');
+		expect(result.structuredContent).toMatchObject({ id: 'job_123', start_time: mockApiResponses.job.start_time });
+	});
+
+	it('should not attach structured content to error results', async () => {
+		(fetch as any).mockResolvedValueOnce({ ok: false, status: 404, text: () => Promise.resolve('{"error": "Job not found"}') });
+
+		const result = await connection.client.callTool({ name: 'get_job', arguments: { id: 'missing' } });
+
+		expect(result.isError).toBe(true);
+		expect(result.structuredContent).toBeUndefined();
+	});
+
+	describe('conformStructuredContent', () => {
+		it('should drop unknown top-level keys and keep unknown nested keys', () => {
+			const shape = outputShape(z.object({ job: jobSchema }));
+
+			expect(conformStructuredContent(shape, { job: { id: 'job_1', extra: true }, debug: 1 })).toEqual({
+				job: { id: 'job_1', extra: true },
+			});
+		});
+	});
+});
@@ -0,0 +1,150 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { z } from 'zod';
+import { TEST_API_KEY } from './setup';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { listRecurringBookingsTool } from '../src/tools/recurring-bookings.js';
+import { collectPages, MAX_AUTO_PAGINATION_ITEMS } from '../src/tools/pagination.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * Builds a page of jobs as Zenbooker returns it
+ */
+function jobsPage(cursor: number, size: number, total: number) {
+	const results = Array.from({ length: Math.min(size, total - cursor) }, (_, i) => ({
+		id: `job_${cursor + i}`,
+		customer_id: 'cust_456',
+		status: 'scheduled',
+		start_time: '2025-08-17T10:00:00.000Z',
+	}));
+	const next = cursor + results.length;
+	return { cursor, results, count: results.length, has_more: next < total, next_cursor: next < total ? next : null };
+}
+
+/**
+ * Serves a list of `total` jobs, honoring the cursor and limit query parameters
+ */
+function serveJobs(total: number) {
+	(fetch as any).mockImplementation((url: string) => {
+		const query = new URL(url).searchParams;
+		const page = jobsPage(Number(query.get('cursor') ?? 0), Number(query.get('limit') ?? 20), total);
+		return Promise.resolve({ ok: true, json: () => Promise.resolve(page) });
+	});
+}
+
+/**
+ * Query parameters of every upstream call made so far
+ */
+function requestedQueries() {
+	return (fetch as any).mock.calls.map(([url]: [string]) => Object.fromEntries(new URL(url).searchParams));
+}
+
+describe('Auto-pagination', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	it('should fetch a single page when auto-pagination is not requested', async () => {
+		serveJobs(250);
+
+		const result = await listJobsTool.handler({ status: 'scheduled' }, TEST_API_KEY);
+		const data = JSON.parse(result.content[0].text);
+
+		expect(fetch).toHaveBeenCalledTimes(1);
+		expect(requestedQueries()).toEqual([{ status: 'scheduled' }]);
+		expect(data.count).toBe(20);
+		expect(data.pages_fetched).toBeUndefined();
+	});
+
+	it('should follow next_cursor until the list ends when all_pages is set', async () => {
+		serveJobs(250);
+
+		const result = await listJobsTool.handler({ status: 'scheduled', all_pages: true }, TEST_API_KEY);
+		const data = JSON.parse(result.content[0].text);
+
+		expect(requestedQueries()).toEqual([
+			{ status: 'scheduled', limit: '100' },
+			{ status: 'scheduled', cursor: '100', limit: '100' },
+			{ status: 'scheduled', cursor: '200', limit: '100' },
+		]);
+		expect(data.results).toHaveLength(250);
+		expect(data.count).toBe(250);
+		expect(data.has_more).toBe(false);
+		expect(data.next_cursor).toBeNull();
+		expect(data.pages_fetched).toBe(3);
+	});
+
+	it('should stop at max_items and return a resume cursor', async () => {
+		serveJobs(250);
+
+		const result = await listJobsTool.handler({ cursor: 10, limit: 50, max_items: 120 }, TEST_API_KEY);
+		const data = JSON.parse(result.content[0].text);
+
+		expect(requestedQueries().map((q: Record<string, string>) => [q.cursor, q.limit])).toEqual([
+			['10', '50'],
+			['60', '50'],
+			['110', '20'],
+		]);
+		expect(data.results).toHaveLength(120);
+		expect(data.results[0].id).toBe('job_10');
+		expect(data.cursor).toBe(10);
+		expect(data.has_more).toBe(true);
+		expect(data.next_cursor).toBe(130);
+	});
+
+	it('should resume from a page it had to cut to max_items, even if it was the last page', async () => {
+		// The API ignores the requested limit and returns full pages of 50
+		const fetchPage = vi.fn().mockImplementation(({ cursor = 0 }) => Promise.resolve(jobsPage(cursor, 50, 80)));
+
+		const data = await collectPages({ max_items: 70 }, fetchPage);
+
+		expect(data.results).toHaveLength(70);
+		expect(data.results[69].id).toBe('job_69');
+		expect(data.has_more).toBe(true);
+		expect(data.next_cursor).toBe(50);
+	});
+
+	it('should use the smaller page size of recurring bookings', async () => {
+		(fetch as any).mockResolvedValue({
+			ok: true,
+			json: () => Promise.resolve({ cursor: 0, results: [], count: 0, has_more: false, next_cursor: null }),
+		});
+
+		await listRecurringBookingsTool.handler({ all_pages: true }, TEST_API_KEY);
+
+		expect(requestedQueries()).toEqual([{ limit: '40' }]);
+	});
+
+	it('should stop when the API does not advance the cursor', async () => {
+		const fetchPage = vi.fn().mockResolvedValue({ cursor: 0, results: [{ id: 'a' }], count: 1, has_more: true, next_cursor: 0 });
+
+		const data = await collectPages({ cursor: 0, all_pages: true }, fetchPage);
+
+		expect(fetchPage).toHaveBeenCalledTimes(1);
+		expect(data.results).toEqual([{ id: 'a' }]);
+		expect(data.has_more).toBe(true);
+		expect(data.next_cursor).toBe(0);
+	});
+
+	it('should cap the number of pages fetched', async () => {
+		let cursor = 0;
+		const fetchPage = vi.fn().mockImplementation(() => {
+			cursor++;
+			return Promise.resolve({ cursor: cursor - 1, results: [{ id: cursor }], count: 1, has_more: true, next_cursor: cursor });
+		});
+
+		const data = await collectPages({ all_pages: true }, fetchPage);
+
+		expect(fetchPage).toHaveBeenCalledTimes(50);
+		expect(data.results).toHaveLength(50);
+		expect(data.next_cursor).toBe(50);
+	});
+
+	it('should reject max_items above the safe cap', () => {
+		const schema = z.object(listJobsTool.schema);
+
+		expect(schema.safeParse({ max_items: MAX_AUTO_PAGINATION_ITEMS }).success).toBe(true);
+		expect(schema.safeParse({ max_items: MAX_AUTO_PAGINATION_ITEMS + 1 }).success).toBe(false);
+	});
+});
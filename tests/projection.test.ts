@@ -0,0 +1,88 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { formatToolResult } from '../src/tools/base.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { parseFieldPaths, projectFields } from '../src/tools/projection.js';
+import { registerOnFakeServer } from './fake-server';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+describe('Field projection', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+	});
+
+	describe('parseFieldPaths', () => {
+		it('should split and trim comma-separated paths', () => {
+			expect(parseFieldPaths(' results.id, results.status ,,')).toEqual(['results.id', 'results.status']);
+		});
+	});
+
+	describe('projectFields', () => {
+		it('should keep selected fields of every array element and the pagination envelope', () => {
+			expect(projectFields(mockApiResponses.jobs, ['results.id', 'results.status'])).toEqual({
+				cursor: 0,
+				results: [{ id: 'job_123', status: 'scheduled' }],
+				count: 1,
+				has_more: false,
+				next_cursor: null,
+			});
+		});
+
+		it('should select nested fields inside arrays', () => {
+			expect(projectFields(mockApiResponses.invoice, ['id', 'line_items.amount'])).toEqual({
+				id: 'inv_123',
+				line_items: [{ amount: 150 }],
+			});
+		});
+
+		it('should keep a whole subtree when a shorter path selects it', () => {
+			expect(projectFields(mockApiResponses.invoice, ['line_items.amount', 'line_items'])).toEqual({
+				line_items: mockApiResponses.invoice.line_items,
+			});
+		});
+
+		it('should ignore paths that do not exist', () => {
+			expect(projectFields(mockApiResponses.customer, ['id', 'nickname', 'email.domain'])).toEqual({ id: 'cust_456' });
+		});
+	});
+
+	describe('formatToolResult', () => {
+		it('should report the omitted size in the metadata', () => {
+			const meta: Record<string, unknown> = {};
+			const full = formatToolResult(mockApiResponses.job).content[0].text;
+
+			const result = formatToolResult(mockApiResponses.job, { fields: ['id'], meta });
+			const projection = meta.projection as Record<string, number>;
+
+			expect(JSON.parse(result.content[0].text)).toEqual({ id: 'job_123' });
+			expect(projection.returned_bytes).toBe(result.content[0].text.length);
+			expect(projection.omitted_bytes).toBe(full.length - result.content[0].text.length);
+			expect(projection.fields).toEqual(['id']);
+		});
+
+		it('should leave the output untouched without fields', () => {
+			const meta: Record<string, unknown> = {};
+
+			const result = formatToolResult(mockApiResponses.job, { meta });
+
+			expect(JSON.parse(result.content[0].text)).toEqual(mockApiResponses.job);
+			expect(meta.projection).toBeUndefined();
+		});
+	});
+
+	describe('registerTool integration', () => {
+		it('should strip the fields parameter from the upstream query and prune the result', async () => {
+			(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(mockApiResponses.jobs) });
+			const listJobs = registerOnFakeServer(listJobsTool, { getEnvironmentApiKey: () => TEST_API_KEY });
+
+			const result = await listJobs.call({ status: 'scheduled', fields: 'results.id' });
+
+			expect(fetch).toHaveBeenCalledWith('https://api.zenbooker.com/v1/jobs?status=scheduled', expect.anything());
+			expect(JSON.parse(result.content[0].text).results).toEqual([{ id: 'job_123' }]);
+			expect(result._meta.projection.omitted_bytes).toBeGreaterThan(0);
+		});
+	});
+});
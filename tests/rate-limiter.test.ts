@@ -0,0 +1,166 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { makeZenbookerRequest } from '../src/tools/base.js';
+import { ZenbookerRateLimitError, ZenbookerRequestCancelledError } from '../src/tools/errors.js';
+import {
+	DurableObjectRateLimiter,
+	type RateLimitBucketNamespace,
+	type RateLimitOptions,
+	TokenBucketRateLimiter,
+} from '../src/tools/rate-limiter.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * In-memory stand-in for the RateLimitBucket Durable Object namespace
+ *
+ * Like the real namespace, every stub for the same name reaches the same bucket.
+ */
+function createBucketNamespace(): RateLimitBucketNamespace {
+	const buckets = new Map<string, TokenBucketRateLimiter>();
+	const bucketFor = (name: string, options: RateLimitOptions) => {
+		let bucket = buckets.get(name);
+		if (!bucket) {
+			bucket = new TokenBucketRateLimiter(options);
+			buckets.set(name, bucket);
+		}
+		return bucket;
+	};
+	return {
+		idFromName: (name) => name as unknown as DurableObjectId,
+		get: (id) => {
+			const name = id as unknown as string;
+			return {
+				reserve: async (options) => bucketFor(name, options).reserve('api-key'),
+				release: async (options) => bucketFor(name, options).release('api-key'),
+			};
+		},
+	};
+}
+
+describe('TokenBucketRateLimiter', () => {
+	beforeEach(() => {
+		vi.resetAllMocks();
+		vi.useFakeTimers();
+	});
+
+	afterEach(() => {
+		vi.useRealTimers();
+	});
+
+	it('should allow a burst and then pace requests at the configured rate', async () => {
+		const limiter = new TokenBucketRateLimiter({ ratePerSecond: 2, burst: 2, maxQueueMs: 5_000 });
+		let released = 0;
+
+		await limiter.acquire('key');
+		await limiter.acquire('key');
+		const queued = limiter.acquire('key').then(() => released++);
+
+		await vi.advanceTimersByTimeAsync(499);
+		expect(released).toBe(0);
+		await vi.advanceTimersByTimeAsync(1);
+		await queued;
+		expect(released).toBe(1);
+	});
+
+	it('should reject with a structured rate-limit error when the queue would be too long', async () => {
+		const limiter = new TokenBucketRateLimiter({ ratePerSecond: 1, burst: 1, maxQueueMs: 1_500 });
+
+		await limiter.acquire('key');
+		const queued = limiter.acquire('key');
+
+		const error = await limiter.acquire('key').catch((e) => e);
+		expect(error).toBeInstanceOf(ZenbookerRateLimitError);
+		expect(error.code).toBe('client_rate_limited');
+		expect(error.retryAfterMs).toBe(2_000);
+		expect(error.retryable).toBe(true);
+
+		await vi.advanceTimersByTimeAsync(1_000);
+		await queued;
+	});
+
+	it('should keep separate buckets per API key', async () => {
+		const limiter = new TokenBucketRateLimiter({ ratePerSecond: 1, burst: 1, maxQueueMs: 0 });
+
+		await limiter.acquire('tenant-a');
+		await expect(limiter.acquire('tenant-b')).resolves.toBeUndefined();
+		await expect(limiter.acquire('tenant-a')).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+	});
+
+	it('should refill tokens over time up to the burst size', async () => {
+		const limiter = new TokenBucketRateLimiter({ ratePerSecond: 10, burst: 3, maxQueueMs: 0 });
+
+		for (let i = 0; i < 3; i++) {
+			await limiter.acquire('key');
+		}
+		await expect(limiter.acquire('key')).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+
+		await vi.advanceTimersByTimeAsync(10_000);
+		for (let i = 0; i < 3; i++) {
+			await limiter.acquire('key');
+		}
+		await expect(limiter.acquire('key')).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+	});
+
+	it('should stop waiting and return the token when the caller cancels', async () => {
+		const limiter = new TokenBucketRateLimiter({ ratePerSecond: 1, burst: 1, maxQueueMs: 1_000 });
+		const controller = new AbortController();
+
+		await limiter.acquire('key');
+		const queued = limiter.acquire('key', controller.signal);
+		controller.abort();
+
+		await expect(queued).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		const next = limiter.acquire('key');
+		await vi.advanceTimersByTimeAsync(1_000);
+		await expect(next).resolves.toBeUndefined();
+	});
+
+	it('should throttle separate sessions that share one API key together', async () => {
+		const namespace = createBucketNamespace();
+		const options = { ratePerSecond: 1, burst: 2, maxQueueMs: 0 };
+		const firstSession = new DurableObjectRateLimiter(namespace, options);
+		const secondSession = new DurableObjectRateLimiter(namespace, options);
+
+		await firstSession.acquire('shared-key');
+		await secondSession.acquire('shared-key');
+
+		await expect(firstSession.acquire('shared-key')).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+		await expect(secondSession.acquire('shared-key')).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+		await expect(secondSession.acquire('other-key')).resolves.toBeUndefined();
+	});
+
+	it('should return a shared token when a queued session cancels', async () => {
+		const namespace = createBucketNamespace();
+		const options = { ratePerSecond: 1, burst: 1, maxQueueMs: 1_000 };
+		const firstSession = new DurableObjectRateLimiter(namespace, options);
+		const secondSession = new DurableObjectRateLimiter(namespace, options);
+		const controller = new AbortController();
+
+		await firstSession.acquire('shared-key');
+		const queued = secondSession.acquire('shared-key', controller.signal);
+		await vi.advanceTimersByTimeAsync(0);
+		controller.abort();
+
+		await expect(queued).rejects.toBeInstanceOf(ZenbookerRequestCancelledError);
+		const next = firstSession.acquire('shared-key');
+		await vi.advanceTimersByTimeAsync(1_000);
+		await expect(next).resolves.toBeUndefined();
+	});
+
+	it('should throttle makeZenbookerRequest before calling Zenbooker', async () => {
+		(fetch as any).mockResolvedValue({ ok: true, json: () => Promise.resolve({ results: [] }) });
+		const rateLimiter = new TokenBucketRateLimiter({ ratePerSecond: 1, burst: 1, maxQueueMs: 0 });
+
+		await makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { rateLimiter });
+		await expect(
+			makeZenbookerRequest('/jobs', 'GET', undefined, TEST_API_KEY, { rateLimiter })
+		).rejects.toBeInstanceOf(ZenbookerRateLimitError);
+		await expect(
+			makeZenbookerRequest('/jobs', 'GET', undefined, 'second-tenant-key', { rateLimiter })
+		).resolves.toEqual({ results: [] });
+
+		expect(fetch).toHaveBeenCalledTimes(2);
+	});
+});
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import { formatToolResult, type ToolContext } from '../src/tools/base.js';
+import { createCouponTool } from '../src/tools/coupons.js';
+import { createCustomerTool, updateCustomerTool } from '../src/tools/customers.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { registerOnFakeServer } from './fake-server';
+import { RESULT_HANDLE_TTL_MS, type ResultStore } from '../src/tools/result-store.js';
+import { readResultChunkTool } from '../src/tools/results.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * In-memory stand-in for the Durable Object SQLite result store
+ */
+class MemoryResultStore implements ResultStore {
+	entries = new Map<string, { text: string; expiresAt: number }>();
+	now = 1_000;
+
+	save(text: string, ttlMs = RESULT_HANDLE_TTL_MS) {
+		const handle = `handle_${this.entries.size + 1}`;
+		this.entries.set(handle, { text, expiresAt: this.now + ttlMs });
+		return handle;
+	}
+
+	read(handle: string, offset: number, length: number) {
+		const entry = this.entries.get(handle);
+		if (!entry || entry.expiresAt <= this.now) {
+			return undefined;
+		}
+		return { text: entry.text.slice(offset, offset + length), totalChars: entry.text.length, expiresAt: entry.expiresAt };
+	}
+}
+
+const largeResult = { results: Array.from({ length: 20 }, (_, i) => ({ id: `job_${i}`, notes: 'x'.repeat(20) })) };
+
+describe('Oversized results', () => {
+	let resultStore: MemoryResultStore;
+	let context: ToolContext;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		resultStore = new MemoryResultStore();
+		context = { resultStore, maxResponseChars: 200, meta: {} };
+	});
+
+	it('should return small results unchanged', () => {
+		const result = formatToolResult(mockApiResponses.job, { ...context, maxResponseChars: 10_000 });
+
+		expect(result.content[0].text).toBe(JSON.stringify(mockApiResponses.job, null, 2));
+		expect(result.structuredContent).toEqual(mockApiResponses.job);
+		expect(resultStore.entries.size).toBe(0);
+	});
+
+	it('should truncate an oversized result and store the full text under a handle', () => {
+		const full = JSON.stringify(largeResult, null, 2);
+
+		const result = formatToolResult(largeResult, context);
+
+		expect(result.content[0].text.startsWith(full.slice(0, 200))).toBe(true);
+		expect(result.content[0].text).toContain('Call read_result_chunk with handle "handle_1" and offset 200');
+		expect(result.structuredContent).toEqual({ truncated: { handle: 'handle_1', total_chars: full.length, next_offset: 200 } });
+		expect(resultStore.entries.get('handle_1')?.text).toBe(full);
+		expect(context.meta?.truncation).toEqual({ handle: 'handle_1', total_chars: full.length, next_offset: 200 });
+	});
+
+	it('should not truncate without a result store', () => {
+		const result = formatToolResult(largeResult, { maxResponseChars: 200 });
+
+		expect(result.content[0].text).toBe(JSON.stringify(largeResult, null, 2));
+	});
+
+	it('should read the stored result back chunk by chunk', async () => {
+		const full = JSON.stringify(largeResult, null, 2);
+		formatToolResult(largeResult, context);
+
+		let text = full.slice(0, 200);
+		let offset: number | null = 200;
+		while (offset !== null) {
+			const chunk = await readResultChunkTool.handler({ handle: 'handle_1', offset }, undefined, context);
+			text += chunk.content[0].text.split('\n\n[Truncated:')[0];
+			offset = chunk.structuredContent?.next_offset as number | null;
+		}
+
+		expect(text).toBe(full);
+	});
+
+	it('should cap the chunk length at the maximum response size', async () => {
+		formatToolResult(largeResult, context);
+
+		const chunk = await readResultChunkTool.handler({ handle: 'handle_1', offset: 0, length: 5_000 }, undefined, context);
+
+		expect(chunk.structuredContent).toMatchObject({ handle: 'handle_1', offset: 0, next_offset: 200 });
+	});
+
+	it('should reject unknown and expired handles', async () => {
+		formatToolResult(largeResult, context);
+		resultStore.now += RESULT_HANDLE_TTL_MS;
+
+		await expect(readResultChunkTool.handler({ handle: 'handle_1' }, undefined, context)).rejects.toThrow('unknown or has expired');
+		await expect(readResultChunkTool.handler({ handle: 'handle_1' }, undefined, {})).rejects.toThrow('not available');
+	});
+
+	it.each([
+		{ tool: createCustomerTool, params: { first_name: 'Jane', last_name: 'Doe' }, response: mockApiResponses.createdCustomer },
+		{ tool: updateCustomerTool, params: { id: 'cust_123', notes: 'VIP' }, response: mockApiResponses.customer },
+		{
+			tool: createCouponTool,
+			params: { code: 'SAVE20', name: '20% Off', discount_type: 'percentage', discount_value: 20 },
+			response: mockApiResponses.createdCoupon,
+		},
+	])('should truncate the result of $tool.name like any other tool', async ({ tool, params, response }) => {
+		(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(response) });
+
+		const result = await tool.handler(params, TEST_API_KEY, { ...context, maxResponseChars: 50 });
+
+		expect(result.content[0].text).toContain('Call read_result_chunk with handle "handle_1" and offset 50');
+		expect(resultStore.entries.get('handle_1')?.text).toBe(JSON.stringify(response, null, 2));
+	});
+
+	it('should report the truncation handle in _meta through registerTool', async () => {
+		const jobs = { ...mockApiResponses.jobs, results: Array(20).fill(mockApiResponses.jobs.results[0]) };
+		(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(jobs) });
+		const listJobs = registerOnFakeServer(listJobsTool, {
+			getEnvironmentApiKey: () => TEST_API_KEY,
+			getToolContext: () => ({ resultStore, maxResponseChars: 500 }),
+		});
+
+		const result = await listJobs.call();
+
+		expect(result.isError).toBeFalsy();
+		expect(result._meta.truncation).toMatchObject({ handle: 'handle_1', next_offset: 500 });
+		expect(result.structuredContent).toEqual({ truncated: result._meta.truncation });
+	});
+});
@@ -0,0 +1,138 @@
+import { describe, it, expect, afterEach, vi } from 'vitest';
+import { renderConsentPage } from '../src/auth/consent-page.js';
+import { findToolCalls, resolveScopeTools, ScopedToolAccess } from '../src/auth/scopes.js';
+import { resolveZenbookerConfig, ZenbookerConfigError } from '../src/config.js';
+import { registerToolsByCategory } from '../src/tools/registry.js';
+import { FakeMcpServer } from './fake-server';
+
+const scopes = {
+	dispatcher: ['scheduling', 'jobs'],
+	bookkeeper: ['invoices', 'transactions'],
+	'customers:read': ['list_customers', 'get_customer'],
+};
+
+/**
+ * Builds a JSON-RPC tools/call request body
+ */
+function toolCall(name: string, id = 1) {
+	return { jsonrpc: '2.0', id, method: 'tools/call', params: { name, arguments: {} } };
+}
+
+describe('OAuth tool scopes', () => {
+	afterEach(() => {
+		vi.restoreAllMocks();
+	});
+
+	describe('resolveScopeTools', () => {
+		it('should give each client the tools of its scopes', () => {
+			expect(resolveScopeTools(scopes, ['dispatcher'])).toEqual([
+				'list_jobs',
+				'get_job',
+				'start_job',
+				'complete_job',
+				'add_job_note',
+				'create_job',
+				'reschedule_job',
+				'cancel_job',
+				'assign_job',
+				'unassign_job',
+				'check_territory_coverage',
+				'get_available_appointments',
+				'check_adjacent_territories',
+				'read_result_chunk',
+			]);
+			expect(resolveScopeTools(scopes, ['bookkeeper', 'customers:read'])).toEqual([
+				'list_customers',
+				'get_customer',
+				'list_invoices',
+				'get_invoice',
+				'list_transactions',
+				'read_result_chunk',
+			]);
+		});
+
+		it('should leave a token without known scopes only read_result_chunk', () => {
+			expect(resolveScopeTools(scopes, [])).toEqual(['read_result_chunk']);
+			expect(resolveScopeTools(scopes, ['payroll'])).toEqual(['read_result_chunk']);
+		});
+
+		it('should reject scopes naming unknown categories or tools', () => {
+			expect(() => resolveScopeTools({ ...scopes, payroll: ['payroll'] }, ['dispatcher'])).toThrow(
+				'Unknown tool category or tool "payroll" in OAUTH_TOOL_SCOPES scope "payroll"'
+			);
+		});
+	});
+
+	describe('configuration', () => {
+		it('should read the scope definitions from the environment', () => {
+			expect(resolveZenbookerConfig({}).toolSelection.scopes).toBeUndefined();
+			expect(resolveZenbookerConfig({ OAUTH_TOOL_SCOPES: JSON.stringify(scopes) }).toolSelection.scopes).toEqual(scopes);
+		});
+
+		it('should reject malformed scope definitions', () => {
+			expect(() => resolveZenbookerConfig({ OAUTH_TOOL_SCOPES: '["dispatcher"]' })).toThrow(ZenbookerConfigError);
+			expect(() => resolveZenbookerConfig({ OAUTH_TOOL_SCOPES: '{"front desk": ["jobs"]}' })).toThrow('Invalid scope name');
+			expect(() => resolveZenbookerConfig({ OAUTH_TOOL_SCOPES: '{"dispatcher": []}' })).toThrow('non-empty array');
+			expect(() => resolveZenbookerConfig({ OAUTH_TOOL_SCOPES: '{}' })).toThrow('at least one scope');
+		});
+	});
+
+	describe('registration', () => {
+		it('should register only the allowed tools', () => {
+			const fake = new FakeMcpServer();
+			registerToolsByCategory(fake.server, ['jobs', 'invoices', 'results'], { getEnvironmentApiKey: () => undefined }, {
+				allowedTools: resolveScopeTools(scopes, ['dispatcher']),
+			});
+
+			expect(fake.names).toEqual(['list_jobs', 'get_job', 'start_job', 'complete_job', 'add_job_note', 'create_job', 'reschedule_job', 'cancel_job', 'assign_job', 'unassign_job', 'read_result_chunk']);
+		});
+	});
+
+	describe('audit', () => {
+		it('should find the tools called by single and batched messages', () => {
+			expect(findToolCalls(JSON.stringify(toolCall('list_jobs')))).toEqual(['list_jobs']);
+			expect(findToolCalls(JSON.stringify([toolCall('list_jobs', 1), { jsonrpc: '2.0', id: 2, method: 'tools/list' }, toolCall('get_invoice', 3)])))
+				.toEqual(['list_jobs', 'get_invoice']);
+			expect(findToolCalls('not json')).toEqual([]);
+		});
+
+		it('should audit calls to tools outside the session scopes', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const access = new ScopedToolAccess(scopes, ['dispatcher'], { user: { login: 'dana' }, clientId: 'client-1' });
+
+			const denied = access.auditDeniedCalls(JSON.stringify(toolCall('list_invoices')));
+
+			expect(denied).toEqual([{ tool: 'list_invoices', user: 'dana', clientId: 'client-1', scopes: ['dispatcher'] }]);
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(warn.mock.calls[0][0]).toContain('"tool":"list_invoices"');
+		});
+
+		it('should not audit allowed calls or tools that do not exist', () => {
+			const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+			const access = new ScopedToolAccess(scopes, ['dispatcher']);
+
+			expect(access.auditDeniedCalls(JSON.stringify(toolCall('list_jobs')))).toEqual([]);
+			expect(access.auditDeniedCalls(JSON.stringify(toolCall('read_result_chunk')))).toEqual([]);
+			expect(access.auditDeniedCalls(JSON.stringify(toolCall('delete_everything')))).toEqual([]);
+			expect(warn).not.toHaveBeenCalled();
+		});
+	});
+
+	describe('consent page', () => {
+		it('should offer every scope, checking the requested ones', () => {
+			const html = renderConsentPage({
+				clientId: 'client-1',
+				clientName: 'Dispatch Assistant',
+				redirectUri: 'https://assistant.example.com/cb',
+				redirectHost: 'assistant.example.com',
+				redirectIsLoopback: false,
+				scope: ['dispatcher'],
+			}, 'handle-1', scopes);
+
+			expect(html).toContain('<input type="checkbox" name="scope" value="dispatcher" checked>');
+			expect(html).toContain('<input type="checkbox" name="scope" value="bookkeeper">');
+			expect(html).toContain('<code>customers:read</code>: list_customers, get_customer');
+			expect(html).toContain('the scopes you select');
+		});
+	});
+});
@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { resolveZenbookerConfig, ZenbookerConfigError } from '../src/config.js';
+import { allTools } from '../src/tools/index.js';
+import { registerToolsByCategory, selectTools, type ToolFilterOptions } from '../src/tools/registry.js';
+import { FakeMcpServer } from './fake-server';
+
+/**
+ * Registers the selected tools against a fake server and returns their names
+ */
+function registeredNames(categories: string[], options?: ToolFilterOptions): string[] {
+	const fake = new FakeMcpServer();
+	registerToolsByCategory(fake.server, categories, { getEnvironmentApiKey: () => undefined }, options);
+	return fake.names;
+}
+
+describe('Tool selection', () => {
+	it('should register only the tools of the enabled categories', () => {
+		expect(registeredNames(['scheduling', 'territories'])).toEqual([
+			'list_territories',
+			'check_territory_coverage',
+			'get_available_appointments',
+			'check_adjacent_territories',
+			'read_result_chunk',
+		]);
+	});
+
+	it('should always register read_result_chunk unless it is disabled', () => {
+		expect(registeredNames(['jobs'])).toContain('read_result_chunk');
+		expect(registeredNames(['jobs'], { disabledTools: ['read_result_chunk'] })).toEqual(['list_jobs', 'get_job', 'start_job', 'complete_job', 'add_job_note', 'create_job', 'reschedule_job', 'cancel_job', 'assign_job', 'unassign_job']);
+	});
+
+	it('should leave out disabled tools', () => {
+		const names = registeredNames(['customers'], { disabledTools: ['create_customer', 'update_customer'] });
+
+		expect(names).toEqual(['list_customers', 'get_customer', 'read_result_chunk']);
+	});
+
+	it('should register every tool when all categories are enabled', () => {
+		const categories = ['jobs', 'customers', 'invoices', 'transactions', 'teamMembers', 'recurringBookings', 'territories', 'coupons', 'scheduling', 'results', 'accounts'];
+
+		expect(selectTools(categories)).toHaveLength(allTools.length);
+	});
+
+	it('should leave out every mutating tool in read-only mode', () => {
+		const names = selectTools(['customers', 'coupons', 'jobs'], { readOnly: true }).map((tool) => tool.name);
+
+		expect(names).toEqual(['list_jobs', 'get_job', 'list_customers', 'get_customer', 'read_result_chunk']);
+	});
+
+	it('should flag exactly the tools that write to Zenbooker as mutating', () => {
+		expect(allTools.filter((tool) => tool.mutating).map((tool) => tool.name).sort()).toEqual([
+			'add_job_note',
+			'assign_job',
+			'cancel_job',
+			'complete_job',
+			'create_coupon',
+			'create_customer',
+			'create_job',
+			'reschedule_job',
+			'start_job',
+			'unassign_job',
+			'update_customer',
+		]);
+	});
+
+	it('should publish the read-only hint with each tool', () => {
+		const fake = new FakeMcpServer();
+		registerToolsByCategory(fake.server, ['customers'], { getEnvironmentApiKey: () => undefined });
+
+		expect(fake.tool('get_customer').config.annotations).toEqual({ readOnlyHint: true });
+		expect(fake.tool('create_customer').config.annotations).toEqual({ readOnlyHint: false });
+	});
+
+	it('should reject unknown categories and tools', () => {
+		expect(() => selectTools(['jobs', 'payroll'])).toThrow('Unknown tool category "payroll"');
+		expect(() => selectTools(['jobs'], { disabledTools: ['delete_job'] })).toThrow(ZenbookerConfigError);
+	});
+
+	it('should read the read-only switch from the environment', () => {
+		expect(resolveZenbookerConfig({ ZENBOOKER_READ_ONLY: 'TRUE' }).toolSelection.readOnly).toBe(true);
+		expect(resolveZenbookerConfig({ ZENBOOKER_READ_ONLY: '0' }).toolSelection.readOnly).toBe(false);
+		expect(() => resolveZenbookerConfig({ ZENBOOKER_READ_ONLY: 'yes please' })).toThrow('ZENBOOKER_READ_ONLY');
+	});
+
+	it('should read the selection from the environment', () => {
+		expect(resolveZenbookerConfig({}).toolSelection).toEqual({ enabledCategories: undefined, disabledTools: [], readOnly: false });
+		expect(resolveZenbookerConfig({
+			ENABLED_TOOL_CATEGORIES: 'scheduling, territories',
+			DISABLED_TOOLS: 'check_adjacent_territories',
+		}).toolSelection).toEqual({
+			enabledCategories: ['scheduling', 'territories'],
+			disabledTools: ['check_adjacent_territories'],
+			readOnly: false,
+		});
+	});
+});
@@ -0,0 +1,146 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import { TEST_API_KEY } from './setup';
+import { mockApiResponses } from './mocks';
+import {
+	couponSchema,
+	customerSchema,
+	customersResponseSchema,
+	invoiceSchema,
+	invoicesResponseSchema,
+	jobSchema,
+	jobsResponseSchema,
+	recurringBookingsResponseSchema,
+	teamMembersResponseSchema,
+	territoriesResponseSchema,
+	transactionsResponseSchema,
+} from '../src/schemas.js';
+import { ZenbookerResponseValidationError, formatToolError } from '../src/tools/errors.js';
+import { listJobsTool } from '../src/tools/jobs.js';
+import { validateResponse } from '../src/tools/validation.js';
+
+// Mock fetch globally
+global.fetch = vi.fn();
+
+/**
+ * A job as the old `Job` interface described it, which Zenbooker does not return
+ */
+const driftedJobs = {
+	...mockApiResponses.jobs,
+	results: [{ id: 'job_123', customer_id: 'cust_456', status: 'rescheduled', scheduled_at: '2025-08-17T10:00:00.000Z' }],
+};
+
+describe('Response validation', () => {
+	let warn: ReturnType<typeof vi.spyOn>;
+
+	beforeEach(() => {
+		vi.resetAllMocks();
+		warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+	});
+
+	afterEach(() => {
+		warn.mockRestore();
+	});
+
+	describe('schemas', () => {
+		it.each([
+			['jobs', jobsResponseSchema, mockApiResponses.jobs],
+			['job', jobSchema, mockApiResponses.job],
+			['customers', customersResponseSchema, mockApiResponses.customers],
+			['customer', customerSchema, mockApiResponses.customer],
+			['createdCustomer', customerSchema, mockApiResponses.createdCustomer],
+			['invoices', invoicesResponseSchema, mockApiResponses.invoices],
+			['invoice', invoiceSchema, mockApiResponses.invoice],
+			['transactions', transactionsResponseSchema, mockApiResponses.transactions],
+			['teamMembers', teamMembersResponseSchema, mockApiResponses.teamMembers],
+			['recurringBookings', recurringBookingsResponseSchema, mockApiResponses.recurringBookings],
+			['territories', territoriesResponseSchema, mockApiResponses.territories],
+			['createdCoupon', couponSchema, mockApiResponses.createdCoupon],
+		])('should accept the %s mock response', (_name, schema, response) => {
+			expect(schema.safeParse(response).success).toBe(true);
+		});
+
+		it('should keep fields the schema does not know about', () => {
+			const parsed = customerSchema.parse({ ...mockApiResponses.customer, loyalty_tier: 'gold' });
+			expect(parsed.loyalty_tier).toBe('gold');
+		});
+	});
+
+	describe('validateResponse', () => {
+		it('should log drift and return the data unchanged in lenient mode', () => {
+			const meta: Record<string, unknown> = {};
+
+			const result = validateResponse(jobsResponseSchema, driftedJobs, '/jobs?customer_id=cust_456', { meta });
+
+			expect(result).toBe(driftedJobs);
+			expect(warn).toHaveBeenCalledTimes(1);
+			expect(JSON.parse(warn.mock.calls[0][0])).toMatchObject({ level: 'warn', message: 'Zenbooker response drift', path: '/jobs' });
+			expect(warn.mock.calls[0][0]).not.toContain('cust_456');
+			expect(meta.validation).toEqual({
+				status: 'drift',
+				issues: expect.arrayContaining([
+					expect.objectContaining({ path: 'results.0.status' }),
+					expect.objectContaining({ path: 'results.0.start_time' }),
+				]),
+			});
+		});
+
+		it('should default to lenient mode', () => {
+			expect(validateResponse(jobsResponseSchema, driftedJobs, '/jobs')).toBe(driftedJobs);
+			expect(warn).toHaveBeenCalledTimes(1);
+		});
+
+		it('should throw in strict mode', () => {
+			let error: unknown;
+			try {
+				validateResponse(jobsResponseSchema, driftedJobs, '/jobs', { responseValidation: 'strict' });
+			} catch (e) {
+				error = e;
+			}
+
+			expect(error).toBeInstanceOf(ZenbookerResponseValidationError);
+			expect((error as ZenbookerResponseValidationError).endpoint).toBe('/jobs');
+			expect((error as ZenbookerResponseValidationError).issues.map((i) => i.path)).toContain('results.0.start_time');
+			expect(warn).not.toHaveBeenCalled();
+		});
+
+		it('should skip validation when turned off', () => {
+			const meta: Record<string, unknown> = {};
+
+			expect(validateResponse(jobsResponseSchema, driftedJobs, '/jobs', { responseValidation: 'off', meta })).toBe(driftedJobs);
+			expect(warn).not.toHaveBeenCalled();
+			expect(meta.validation).toBeUndefined();
+		});
+
+		it('should not report anything for a matching response', () => {
+			const meta: Record<string, unknown> = {};
+
+			validateResponse(jobsResponseSchema, mockApiResponses.jobs, '/jobs', { responseValidation: 'strict', meta });
+			expect(meta.validation).toBeUndefined();
+		});
+	});
+
+	describe('tool handlers', () => {
+		it('should fail a strict tool call with a readable, non-retryable error', async () => {
+			(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(driftedJobs) });
+
+			const error = await listJobsTool
+				.handler({}, TEST_API_KEY, { responseValidation: 'strict' })
+				.catch((e) => e);
+			const result = formatToolError(error);
+
+			expect(result.isError).toBe(true);
+			expect(result.content[0].text).toContain('did not match the expected schema');
+			expect(result.content[0].text).toContain('- results.0.status:');
+			expect(result._meta?.error).toMatchObject({ type: 'ZenbookerResponseValidationError', endpoint: '/jobs', retryable: false });
+		});
+
+		it('should still return drifted data from a lenient tool call', async () => {
+			(fetch as any).mockResolvedValueOnce({ ok: true, json: () => Promise.resolve(driftedJobs) });
+
+			const result = await listJobsTool.handler({}, TEST_API_KEY, { responseValidation: 'lenient' });
+
+			expect(result.isError).toBeUndefined();
+			expect(result.content[0].text).toContain('scheduled_at');
+		});
+	});
+});
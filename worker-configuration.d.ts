@@ -4,6 +4,7 @@
 declare namespace Cloudflare {
 	interface Env {
 		MCP_OBJECT: DurableObjectNamespace<import("./src/index").ZenbookerMCP>;
+		RATE_LIMIT_BUCKET: DurableObjectNamespace<import("./src/index").RateLimitBucket>;
 	}
 }
 interface Env extends Cloudflare.Env {}